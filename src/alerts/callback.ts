@@ -1,5 +1,6 @@
 import { logger } from "../logger";
 import { markJobApplied, markJobDismissed, getJobById } from "../db/operations";
+import type { TelegramMessage } from "./commands";
 
 function escapeHtml(text: string): string {
   return text
@@ -22,9 +23,10 @@ interface TelegramCallbackQuery {
   data?: string;
 }
 
-interface TelegramUpdate {
+export interface TelegramUpdate {
   update_id: number;
   callback_query?: TelegramCallbackQuery;
+  message?: TelegramMessage;
 }
 
 interface TelegramApiResponse<T> {
@@ -158,9 +160,15 @@ async function editMessage(
   }
 }
 
+// onMessage receives text messages (bot commands); without it only button
+// callbacks are polled
 export function startCallbackPolling(
   botToken: string,
-  options: { force?: boolean; timeoutSeconds?: number } = {},
+  options: {
+    force?: boolean;
+    timeoutSeconds?: number;
+    onMessage?: (message: TelegramMessage) => Promise<unknown>;
+  } = {},
 ): void {
   if (pollingStarted) {
     return;
@@ -188,7 +196,7 @@ export function startCallbackPolling(
       logger.info(
         "Telegram callback polling enabled (no webhook detected).",
       );
-      await pollCallbackLoop(botToken, timeoutSeconds);
+      await pollCallbackLoop(botToken, timeoutSeconds, options.onMessage);
     } catch (error) {
       logger.error(`Telegram callback polling failed to start: ${error}`);
     }
@@ -209,6 +217,7 @@ async function getWebhookInfo(botToken: string): Promise<TelegramWebhookInfo> {
 async function pollCallbackLoop(
   botToken: string,
   timeoutSeconds: number,
+  onMessage?: (message: TelegramMessage) => Promise<unknown>,
 ): Promise<void> {
   let offset: number | undefined;
 
@@ -220,7 +229,9 @@ async function pollCallbackLoop(
         offset?: number;
       } = {
         timeout: timeoutSeconds,
-        allowed_updates: ["callback_query"],
+        allowed_updates: onMessage
+          ? ["callback_query", "message"]
+          : ["callback_query"],
       };
       if (offset !== undefined) {
         body.offset = offset;
@@ -247,6 +258,8 @@ async function pollCallbackLoop(
         offset = update.update_id + 1;
         if (update.callback_query) {
           await handleCallbackQuery(update, botToken);
+        } else if (update.message && onMessage) {
+          await onMessage(update.message);
         }
       }
     } catch (error) {
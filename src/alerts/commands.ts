@@ -0,0 +1,136 @@
+/**
+ * Telegram text commands for the company watchlist and blocklist:
+ *   /boost <company> [points]      /penalty <company> [points]
+ *   /block <company>[: reason]     /clear <company>
+ *   /companies
+ * Only messages from the configured job chat are handled; replies go out
+ * through the job bot.
+ */
+
+import { logger } from "../logger";
+import { sendMessage } from "./index";
+import {
+  buildCompanyPreference,
+  setCompanyPreference,
+} from "../companies/preferences";
+import { rescoreActiveJobs } from "../scoring/rescore";
+import { getCompany } from "../db/operations";
+import type { AppConfig } from "../config";
+
+export interface TelegramMessage {
+  message_id: number;
+  chat: { id: number };
+  text?: string;
+}
+
+const USAGE = [
+  "Company commands:",
+  "/boost &lt;company&gt; [points]",
+  "/penalty &lt;company&gt; [points]",
+  "/block &lt;company&gt;[: reason]",
+  "/clear &lt;company&gt;",
+  "/companies",
+].join("\n");
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export async function handleCommandMessage(
+  message: TelegramMessage,
+  config: AppConfig,
+): Promise<{ success: boolean; command?: string }> {
+  if (String(message.chat.id) !== config.env.telegramChatId) {
+    logger.warn(`Ignoring Telegram message from chat ${message.chat.id}`);
+    return { success: false };
+  }
+
+  // "/boost@my_bot Shopify 25" → command "boost", args "Shopify 25"
+  const match = message.text?.trim().match(/^\/(\w+)(?:@\w+)?\s*(.*)$/s);
+  if (!match) {
+    return { success: false };
+  }
+  const [, command, args] = match as [string, string, string];
+  logger.info(`Telegram command: /${command} ${args}`);
+
+  try {
+    await sendMessage("job", runCommand(command, args.trim(), config));
+    return { success: true, command };
+  } catch (error) {
+    logger.error(`Telegram command /${command} failed: ${error}`);
+    await sendMessage(
+      "job",
+      `⚠️ /${command} failed: ${escapeHtml(String(error))}`,
+    );
+    return { success: false, command };
+  }
+}
+
+function runCommand(command: string, args: string, config: AppConfig): string {
+  if (command === "companies") {
+    return formatCompanyPreferences(config);
+  }
+  if (!["boost", "penalty", "block", "clear"].includes(command) || !args) {
+    return USAGE;
+  }
+
+  if (command === "block") {
+    const [name = "", ...reason] = args.split(":");
+    const update = setCompanyPreference(
+      config,
+      name.trim(),
+      buildCompanyPreference("block", undefined, reason.join(":").trim()),
+    );
+    return `🚫 Blocked ${escapeHtml(update.companyName)} — ${update.rejected} active jobs rejected`;
+  }
+
+  if (command === "clear") {
+    const update = setCompanyPreference(config, args, null);
+    const rescore = rescoreActiveJobs(config);
+    return `🧹 Cleared ${escapeHtml(update.companyName)} — ${rescore.updated} jobs re-scored`;
+  }
+
+  // Trailing number is the points, e.g. "/boost Acme Labs 25"
+  const pointsMatch = args.match(/^(.+?)\s+([+-]?\d+)$/);
+  const name = pointsMatch?.[1] ?? args;
+  const points = pointsMatch ? parseInt(pointsMatch[2]!, 10) : undefined;
+  const action = command === "boost" ? "boost" : "penalty";
+
+  const update = setCompanyPreference(
+    config,
+    name,
+    buildCompanyPreference(action, points),
+  );
+  const rescore = rescoreActiveJobs(config);
+  const applied =
+    update.preference?.points ??
+    config.companyPreferences.defaultPoints[action];
+  return `${action === "boost" ? "⭐ Boosted" : "👎 Penalized"} ${escapeHtml(update.companyName)} (${formatPoints(applied)}) — ${rescore.updated} jobs re-scored`;
+}
+
+function formatPoints(points: number): string {
+  return points > 0 ? `+${points}` : `${points}`;
+}
+
+function formatCompanyPreferences(config: AppConfig): string {
+  const entries = Object.entries(config.companyPreferences.companies);
+  if (entries.length === 0) {
+    return `No company preferences yet.\n\n${USAGE}`;
+  }
+
+  const icons = { boost: "⭐", penalty: "👎", block: "🚫" };
+  const lines = entries.map(([id, preference]) => {
+    const name = getCompany(id)?.name ?? id;
+    const points =
+      preference.action === "block"
+        ? ""
+        : ` ${formatPoints(preference.points ?? config.companyPreferences.defaultPoints[preference.action])}`;
+    const reason = preference.reason ? ` — ${preference.reason}` : "";
+    return `${icons[preference.action]} ${escapeHtml(name)}${points}${escapeHtml(reason)}`;
+  });
+  return `<b>Company preferences</b>\n${lines.join("\n")}`;
+}
@@ -1,5 +1,11 @@
 import { logger } from "../logger";
-import { getUndigestedJobs, getFitAnalysis, getAlternateUrls } from "../db/operations";
+import {
+  getUndigestedJobs,
+  getFitAnalysis,
+  getAlternateUrls,
+  getJobSkills,
+  getJobLocations,
+} from "../db/operations";
 
 function escapeHtml(text: string): string {
   return text
@@ -13,18 +19,24 @@ function safeHref(url: string): string {
   return escapeHtml(url.trim());
 }
 
+const MAX_SKILL_CHIPS = 6;
+
 export interface DigestJob {
   id: number;
   title: string;
   company: string;
   url: string;
   city: string | null;
+  locations: string[];
   workMode: string;
   score: number;
   scoreBand: string;
   postedAt: string | null;
   firstSeenAt: string;
   titleBucket: string;
+  languageRequirement: string | null;
+  distanceKm: number | null;
+  skills: string[];
   // AI Fit (optional — present if job was analyzed)
   fitScore?: number;
   fitVerdict?: string;
@@ -76,12 +88,16 @@ export function formatDigest(
       company: j.company,
       url: j.url,
       city: j.city ?? null,
+      locations: getJobLocations(j.id).map((l) => l.location_raw),
       workMode: j.work_mode ?? "unknown",
       score: j.score,
       scoreBand: j.score_band ?? "low",
       postedAt: j.posted_at ?? null,
       firstSeenAt: j.first_seen_at,
       titleBucket: j.title_bucket ?? "include",
+      languageRequirement: j.language_requirement,
+      distanceKm: j.distance_km,
+      skills: getJobSkills(j.id),
     };
 
     // Attach AI fit data if available
@@ -131,7 +147,7 @@ export function formatDigest(
 
 export function formatJobCard(job: DigestJob, index: number): string {
   const timeAgo = formatTimeAgo(job.postedAt ?? job.firstSeenAt);
-  const location = escapeHtml(job.city ?? "Unknown");
+  const location = formatLocations(job.city, job.locations);
   const mode =
     job.workMode !== "unknown" ? ` (${escapeHtml(job.workMode)})` : "";
   const title = escapeHtml(job.title);
@@ -151,10 +167,20 @@ export function formatJobCard(job: DigestJob, index: number): string {
 
   const lines = [
     `<b>${index}.</b> [${job.score}] <b>${title}</b>`,
-    `🏢 ${company} — 📍 ${location}${mode}`,
+    `🏢 ${company} — 📍 ${location}${mode}${formatDistance(job.distanceKm)}`,
     `🕐 ${timeAgo} → <a href="${applyUrl}">Apply</a>${altLinks}`,
   ];
 
+  const language = formatLanguageRequirement(job.languageRequirement);
+  if (language) {
+    lines.push(language);
+  }
+
+  if (job.skills.length > 0) {
+    const chips = job.skills.slice(0, MAX_SKILL_CHIPS).map(escapeHtml);
+    lines.push(`🏷 ${chips.join(" · ")}`);
+  }
+
   // Add compact AI fit line if available
   if (job.fitScore !== undefined && job.fitVerdict) {
     const emoji =
@@ -169,6 +195,36 @@ export function formatJobCard(job: DigestJob, index: number): string {
   return lines.join("\n");
 }
 
+// All locations of a multi-location posting, otherwise the matched city
+export function formatLocations(
+  city: string | null,
+  locations: string[],
+): string {
+  if (locations.length > 1) {
+    return locations.map(escapeHtml).join(" · ");
+  }
+  return escapeHtml(city ?? locations[0] ?? "Unknown");
+}
+
+// " · 🚗 18 km" when the distance scorer's home point is configured
+export function formatDistance(distanceKm: number | null | undefined): string {
+  return distanceKm === null || distanceKm === undefined
+    ? ""
+    : ` · 🚗 ${Math.round(distanceKm)} km`;
+}
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  bilingual: "🗣 Bilingual FR/EN required",
+  french: "🗣 French-language posting",
+  french_asset: "🗣 French is an asset",
+};
+
+export function formatLanguageRequirement(
+  requirement: string | null | undefined,
+): string | null {
+  return requirement ? (LANGUAGE_LABELS[requirement] ?? null) : null;
+}
+
 function formatTimeAgo(dateStr: string): string {
   const now = new Date();
   const date = new Date(dateStr);
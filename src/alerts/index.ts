@@ -10,8 +10,10 @@ import {
   logNotification,
   queueAlertRetry,
   getAlternateUrls,
+  getJobLocations,
+  getScoreBreakdown,
 } from "../db/operations";
-import type { BotType, MessageType } from "../types";
+import type { BotType, MessageType, ScoreFactorResult } from "../types";
 
 interface TelegramInlineButton {
   text: string;
@@ -118,7 +120,7 @@ export async function sendMessage(
   }
 }
 
-// Job Alert (Instant Ping for Score ≥ 80)
+// Job Alert (Instant Ping for Top Priority)
 
 import type { FitAnalysis } from "../ai/types";
 
@@ -135,11 +137,22 @@ export async function sendJobAlert(
     source: string;
     postedAt: string | null;
     firstSeenAt: string;
+    languageRequirement?: string | null;
+    distanceKm?: number | null;
   },
   fitAnalysis?: FitAnalysis | null,
-): Promise<void> {
+): Promise<boolean> {
+  // Routed on the final band, so a job the AI fit moved down is not pinged
+  if (job.scoreBand !== "topPriority") {
+    logger.debug(
+      `Instant alert skipped for job ${job.id}: band is ${job.scoreBand}`,
+    );
+    return false;
+  }
+
   const timeAgo = formatTimeAgo(job.postedAt ?? job.firstSeenAt);
-  const locationStr = escapeHtml(job.city ?? "Unknown");
+  const locations = getJobLocations(job.id).map((l) => l.location_raw);
+  const locationStr = formatLocations(job.city, locations);
   const modeStr =
     job.workMode !== "unknown" ? ` (${escapeHtml(job.workMode)})` : "";
   const title = escapeHtml(job.title);
@@ -164,10 +177,20 @@ export async function sendJobAlert(
   const lines = [
     `🔴 <b>TOP PRIORITY — Score: ${job.score}</b>`,
     `${title} @ ${company}`,
-    `📍 ${locationStr}${modeStr} | 🕐 ${timeAgo}`,
-    `🔗 Apply: <a href="${primaryUrl}">${sourceLabel}</a>${altLinks}`,
+    `📍 ${locationStr}${modeStr}${formatDistance(job.distanceKm)} | 🕐 ${timeAgo}`,
   ];
 
+  const reasons = formatScoreReasons(getScoreBreakdown(job.id));
+  if (reasons) {
+    lines.push(`💡 Why: ${reasons}`);
+  }
+  lines.push(`🔗 Apply: <a href="${primaryUrl}">${sourceLabel}</a>${altLinks}`);
+
+  const language = formatLanguageRequirement(job.languageRequirement);
+  if (language) {
+    lines.push(language);
+  }
+
   // Add AI fit analysis if available
   if (fitAnalysis) {
     const verdictEmoji =
@@ -229,6 +252,20 @@ export async function sendJobAlert(
   if (!result.success) {
     queueAlertRetry("job", "instant_alert", job.id, message, result.error!);
   }
+  return true;
+}
+
+// "Greater Toronto Area (Core) +40 · posted within 6h +40 · hybrid +12",
+// largest contributions first; factors worth 0 points are left out
+function formatScoreReasons(breakdown: ScoreFactorResult[]): string {
+  return breakdown
+    .filter((entry) => entry.points !== 0)
+    .sort((a, b) => Math.abs(b.points) - Math.abs(a.points))
+    .map(
+      (entry) =>
+        `${escapeHtml(entry.reason)} ${entry.points > 0 ? "+" : ""}${entry.points}`,
+    )
+    .join(" · ");
 }
 
 function capitalize(s: string): string {
@@ -261,7 +298,12 @@ export async function sendSystemAlert(
 // Digest — card-based: each job gets its own message with action buttons
 
 import type { DigestJob } from "./digest";
-import { formatJobCard } from "./digest";
+import {
+  formatJobCard,
+  formatLanguageRequirement,
+  formatLocations,
+  formatDistance,
+} from "./digest";
 
 export async function sendDigest(
   header: string,
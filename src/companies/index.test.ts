@@ -0,0 +1,28 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { loadConfig } from "../config";
+import { initializeDatabase } from "../db";
+import { mergeCompanies } from "../db/operations";
+import { resolveCompanyId } from "./index";
+
+const config = loadConfig();
+
+beforeAll(() => initializeDatabase());
+
+describe("resolveCompanyId", () => {
+  test("assigns a first-seen company its own id", () => {
+    expect(resolveCompanyId("Zephyr Widgets Inc.", config)).toBe(
+      resolveCompanyId("zephyr widgets", config),
+    );
+  });
+
+  test("sees a merge made after the company was first resolved", () => {
+    const fromId = resolveCompanyId("Quillbyte", config);
+    const intoId = resolveCompanyId("Quillbyte Labs", config);
+    expect(fromId).not.toBe(intoId);
+
+    // What `bun run companies merge` does, possibly from another process
+    mergeCompanies(fromId, intoId);
+
+    expect(resolveCompanyId("Quillbyte", config)).toBe(intoId);
+  });
+});
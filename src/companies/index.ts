@@ -0,0 +1,69 @@
+/**
+ * Company registry — maps board slugs, legal names and aggregator spellings
+ * to one canonical company id, used by fuzzy dedup and analytics.
+ * Seeded from config/company-aliases.json; companies seen for the first time
+ * are registered under their own key, and `bun run companies merge` folds
+ * one id into another.
+ */
+
+import { logger } from "../logger";
+import { companyKey, normalizeCompanyName } from "../normalizer";
+import {
+  deleteOrphanCompanies,
+  getCompanyAlias,
+  getCompaniesWithoutId,
+  repointAliasedCompanyJobs,
+  setCompanyIdForName,
+  upsertCompany,
+  upsertCompanyAlias,
+} from "../db/operations";
+import type { AppConfig } from "../config";
+
+let synced = false;
+
+// Loads config aliases into the registry and assigns ids to jobs stored
+// before the registry existed. Runs once per process.
+export function syncCompanyRegistry(config: AppConfig): void {
+  if (synced) return;
+  synced = true;
+
+  let aliasCount = 0;
+  for (const [id, company] of Object.entries(config.companyAliases.companies)) {
+    upsertCompany(id, company.name, "config");
+    for (const alias of [id, company.name, ...company.aliases]) {
+      const key = companyKey(alias);
+      if (!key) continue;
+      upsertCompanyAlias(key, id, "config");
+      aliasCount++;
+    }
+  }
+
+  const repointed = repointAliasedCompanyJobs();
+  deleteOrphanCompanies();
+
+  const unassigned = getCompaniesWithoutId();
+  for (const company of unassigned) {
+    setCompanyIdForName(company, resolveCompanyId(company, config));
+  }
+
+  logger.debug(
+    `Company registry: ${aliasCount} config aliases, ${repointed} jobs repointed, ${unassigned.length} names backfilled`,
+  );
+}
+
+// Aliases are read from the database on every lookup (not cached), so a
+// running server sees `bun run companies merge` from another process
+export function resolveCompanyId(name: string, config: AppConfig): string {
+  syncCompanyRegistry(config);
+
+  const key = companyKey(name) || "unknown";
+  const alias = getCompanyAlias(key);
+  if (alias) {
+    return alias.company_id;
+  }
+
+  // First sighting: the company becomes its own canonical id
+  upsertCompany(key, normalizeCompanyName(name) || name, "auto");
+  upsertCompanyAlias(key, key, "auto");
+  return key;
+}
@@ -0,0 +1,153 @@
+/**
+ * Company watchlist and blocklist — config/company-preferences.json.
+ * Boosts and penalties become the "company" scoring factor; blocked
+ * companies have their jobs stored as rejected with the block as the reason.
+ * The Telegram commands and API routes edit the file through
+ * setCompanyPreference.
+ */
+
+import { join } from "path";
+import { readFileSync, writeFileSync } from "fs";
+import { logger } from "../logger";
+import { companyKey } from "../normalizer";
+import {
+  getCompany,
+  getCompanyAlias,
+  rejectCompanyJobs,
+} from "../db/operations";
+import { resolveCompanyId } from "./index";
+import type {
+  AppConfig,
+  CompanyPreference,
+  CompanyPreferenceAction,
+  CompanyPreferencesConfig,
+} from "../config";
+import type { FactorScore } from "../scoring";
+import type { CanonicalJob } from "../types";
+
+const PREFERENCES_FILE = join(
+  import.meta.dir,
+  "../../config/company-preferences.json",
+);
+
+type CompanyRef = Pick<CanonicalJob, "company" | "companyId">;
+
+export interface CompanyPreferenceUpdate {
+  companyId: string;
+  companyName: string;
+  preference: CompanyPreference | null;
+  rejected: number; // Active jobs rejected by a block
+}
+
+// Config keys may be names, aliases or ids merged away since; each is
+// resolved through the registry on lookup (not cached), so a
+// `bun run companies merge` applies without a restart
+function resolveKey(key: string): string {
+  return getCompanyAlias(companyKey(key))?.company_id ?? companyKey(key);
+}
+
+export function getCompanyPreference(
+  job: CompanyRef,
+  config: AppConfig,
+): CompanyPreference | null {
+  const companies = config.companyPreferences.companies;
+  const companyId = job.companyId ?? companyKey(job.company);
+  if (Object.hasOwn(companies, companyId)) return companies[companyId]!;
+
+  for (const [key, preference] of Object.entries(companies)) {
+    if (resolveKey(key) === companyId) return preference;
+  }
+  return null;
+}
+
+export function scoreCompanyPreference(
+  job: CanonicalJob,
+  config: AppConfig,
+): FactorScore | null {
+  const preference = getCompanyPreference(job, config);
+  if (!preference || preference.action === "block") return null;
+
+  const label =
+    preference.action === "boost" ? "watchlist company" : "penalized company";
+  return {
+    points:
+      preference.points ??
+      config.companyPreferences.defaultPoints[preference.action],
+    reason: preference.reason ? `${label} (${preference.reason})` : label,
+  };
+}
+
+// The rejected_reason for a blocked company's jobs, or null if not blocked
+export function getBlockReason(
+  job: CompanyRef,
+  config: AppConfig,
+): string | null {
+  const preference = getCompanyPreference(job, config);
+  return preference?.action === "block" ? formatBlockReason(preference) : null;
+}
+
+function formatBlockReason(preference: CompanyPreference): string {
+  return preference.reason
+    ? `blocked company: ${preference.reason}`
+    : "blocked company";
+}
+
+// Boosts are stored positive and penalties negative, whatever sign was given
+export function buildCompanyPreference(
+  action: CompanyPreferenceAction,
+  points?: number,
+  reason?: string,
+): CompanyPreference {
+  const preference: CompanyPreference = { action };
+  if (points !== undefined && action !== "block") {
+    preference.points =
+      action === "boost" ? Math.abs(points) : -Math.abs(points);
+  }
+  if (reason) preference.reason = reason;
+  return preference;
+}
+
+// Saves the preference (null clears it) to the in-memory config and to
+// company-preferences.json. Blocking rejects the company's active jobs;
+// clearing a block leaves those jobs rejected.
+export function setCompanyPreference(
+  config: AppConfig,
+  name: string,
+  preference: CompanyPreference | null,
+): CompanyPreferenceUpdate {
+  const companyId = resolveCompanyId(name, config);
+
+  const companies = { ...config.companyPreferences.companies };
+  for (const key of Object.keys(companies)) {
+    if (resolveKey(key) === companyId) delete companies[key];
+  }
+  if (preference) companies[companyId] = preference;
+  config.companyPreferences = { ...config.companyPreferences, companies };
+  savePreferences(companies);
+
+  const rejected =
+    preference?.action === "block"
+      ? rejectCompanyJobs(companyId, formatBlockReason(preference))
+      : 0;
+
+  logger.info(
+    `Company preference for ${companyId}: ${preference ? JSON.stringify(preference) : "cleared"}${rejected > 0 ? ` (${rejected} active jobs rejected)` : ""}`,
+  );
+
+  return {
+    companyId,
+    companyName: getCompany(companyId)?.name ?? name,
+    preference,
+    rejected,
+  };
+}
+
+function savePreferences(
+  companies: CompanyPreferencesConfig["companies"],
+): void {
+  const data = JSON.parse(
+    readFileSync(PREFERENCES_FILE, "utf-8"),
+  ) as CompanyPreferencesConfig;
+  data.companies = companies;
+  writeFileSync(PREFERENCES_FILE, JSON.stringify(data, null, 2) + "\n");
+}
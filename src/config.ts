@@ -1,26 +1,105 @@
 import { readFileSync, existsSync } from "fs";
 import { join } from "path";
 import { logger } from "./logger";
+import type {
+  LanguageRequirement,
+  ScoreBandKey,
+  SeniorityLevel,
+  WorkAuthorization,
+} from "./types";
 
 export interface LocationTier {
   label: string;
   points: number;
   cities: string[];
   aliases: string[];
+  country?: string; // ISO 3166-1 alpha-2, e.g. "CA"
+  region?: string; // Province/state code, e.g. "ON"
+  remote?: boolean;
+}
+
+// Country code → province/state code → city → [latitude, longitude]
+export interface GazetteerConfig {
+  description: string;
+  countries: Record<string, Record<string, Record<string, [number, number]>>>;
+}
+
+export interface CountryDefinition {
+  name: string;
+  aliases: string[]; // All-caps aliases ("USA") match case-sensitively
+  regions: Record<string, string>; // Code → name, e.g. "WA": "Washington"
+}
+
+export interface RemoteRegion {
+  label: string;
+  countries: string[]; // "*" for anywhere
+  aliases: string[];
 }
 
 export interface LocationConfig {
+  home: { country: string; region?: string };
   tiers: Record<string, LocationTier>;
+  countries: Record<string, CountryDefinition>;
+  remoteRegions: Record<string, RemoteRegion>;
+}
+
+// Canonical company id → display name plus the board slugs, legal names and
+// aggregator spellings that should resolve to it
+export interface CompanyAliasesConfig {
+  description: string;
+  companies: Record<string, { name: string; aliases: string[] }>;
+}
+
+// Keyed by canonical company id (or a name/alias the registry resolves).
+// "boost" and "penalty" add points as the "company" scoring factor, falling
+// back to defaultPoints; "block" stores the company's jobs as rejected.
+export type CompanyPreferenceAction = "boost" | "penalty" | "block";
+
+export interface CompanyPreference {
+  action: CompanyPreferenceAction;
+  points?: number; // Penalties are negative
+  reason?: string;
+}
+
+export interface CompanyPreferencesConfig {
+  description: string;
+  defaultPoints: { boost: number; penalty: number };
+  companies: Record<string, CompanyPreference>;
 }
 
 export interface TitleConfig {
   description: string;
-  patterns: string[];
+  patterns: string[]; // Plain case-insensitive substrings
+  rules?: TitleRule[];
+}
+
+// Title rule language. A bare string (or { "word": ... }) matches a whole
+// word or phrase, so "sre" does not match "measure"; objects combine matchers:
+//   { "regex": "\\bdev(ops)?\\b" }  case-insensitive unless "flags" is set
+//   { "contains": "front-end" }     plain substring
+//   { "all": [...] }, { "any": [...] }, { "not": ... }
+export type TitleMatcher =
+  | string
+  | { word: string }
+  | { contains: string }
+  | { regex: string; flags?: string }
+  | { all: TitleMatcher[] }
+  | { any: TitleMatcher[] }
+  | { not: TitleMatcher };
+
+// The highest-priority matching rule across the three title files decides
+// the bucket. Plain patterns rank reject (30) > include (20) > maybe (10),
+// which is also the default priority for rules in each file.
+export interface TitleRule {
+  name: string;
+  priority?: number;
+  match: TitleMatcher;
 }
 
 export interface ModeEntry {
   points: number;
   keywords: string[];
+  ineligiblePoints?: number; // Remote jobs the home country is not eligible for
 }
 
 export interface ModeConfig {
@@ -28,6 +107,53 @@ export interface ModeConfig {
   modes: Record<string, ModeEntry>;
 }
 
+export type SeniorityAction = "reject" | "score" | "off";
+
+export interface SeniorityConfig {
+  description: string;
+  window: { min: SeniorityLevel; max: SeniorityLevel };
+  action: SeniorityAction;
+  inWindowPoints: number;
+  outOfWindowPoints: number;
+  unknownPoints: number;
+  // Lowest "N+ years" that maps to each level
+  experienceYears: {
+    junior: number;
+    intermediate: number;
+    senior: number;
+    staff: number;
+  };
+}
+
+export type LanguageAction = "reject" | "maybe" | "none";
+
+export interface LanguageConfig {
+  description: string;
+  rules: Partial<Record<LanguageRequirement, LanguageAction>>;
+}
+
+export interface WorkAuthorizationRule {
+  action: "reject" | "score" | "none";
+  points?: number; // Used by "score"
+}
+
+export interface WorkAuthorizationConfig {
+  description: string;
+  rules: Partial<Record<WorkAuthorization, WorkAuthorizationRule>>;
+}
+
+export interface SkillDefinition {
+  name: string;
+  category: string;
+  aliases: string[];
+  caseSensitive?: boolean; // Name only; for words like "Go" or "Rust"
+}
+
+export interface SkillsConfig {
+  description: string;
+  skills: SkillDefinition[];
+}
+
 export interface FreshnessBracket {
   maxHours: number | null;
   points: number;
@@ -44,11 +170,7 @@ export interface ScoreBand {
 
 export interface ScoringConfig {
   description: string;
-  weights: {
-    freshness: number;
-    location: number;
-    mode: number;
-  };
+  weights: Record<string, number>; // Factor name → multiplier (default 1)
   freshness: {
     description: string;
     brackets: FreshnessBracket[];
@@ -56,6 +178,70 @@ export interface ScoringConfig {
     lowConfidenceNote: string;
   };
   bands: Record<string, ScoreBand>;
+  location?: LocationScoringConfig;
+  salary?: SalaryScoringConfig;
+  aiFit?: AiFitScoringConfig;
+  learning?: PreferenceLearningConfig;
+}
+
+export type LocationScoringMethod = "tiers" | "distance";
+
+export interface DistanceBand {
+  maxKm: number | null;
+  points: number;
+  label: string;
+}
+
+// "distance" replaces tier points with commute bands around the home point
+// for locations found in gazetteer.json; everything else keeps tier points.
+export interface LocationScoringConfig {
+  description?: string;
+  method: LocationScoringMethod;
+  distance?: {
+    home: { label?: string; lat: number; lon: number };
+    bands: DistanceBand[];
+  };
+}
+
+// Optional salary factor. Parsed ranges are annualized and compared with
+// the target range; jobs without a salary (or in another currency) get
+// unknownPoints, so the factor only moves jobs that state their pay.
+export interface SalaryScoringConfig {
+  enabled: boolean;
+  currency: string;
+  targetMin: number;
+  targetMax: number;
+  hoursPerYear: number;
+  belowTargetPoints: number; // Top of range under targetMin (usually < 0)
+  inTargetPoints: number;
+  aboveTargetPoints: number; // Bottom of range at or over targetMax
+  unknownPoints: number;
+}
+
+// Applied after analyzeFit: final = (1 - weight) × rule score + weight ×
+// fitScore. A fitScore under vetoBelow caps the job at vetoBand, so a poor
+// fit never goes out as an instant alert.
+export interface AiFitScoringConfig {
+  description?: string;
+  enabled: boolean;
+  weight: number; // 0–1
+  vetoBelow: number;
+  vetoBand: ScoreBandKey;
+}
+
+// Logistic regression over applied (1) vs dismissed (0) jobs. Features
+// seen in fewer than minFeatureCount labelled jobs are dropped. An enabled
+// model adds pointsPerLogit × (sum of the job's feature weights), capped at
+// ±maxPoints, as the "preference" factor.
+export interface PreferenceLearningConfig {
+  description?: string;
+  minSamples: number;
+  minFeatureCount: number;
+  iterations: number;
+  learningRate: number;
+  l2: number;
+  pointsPerLogit: number;
+  maxPoints: number;
 }
 
 export interface RateLimiting {
@@ -66,6 +252,32 @@ export interface RateLimiting {
   backoffStartMs: number;
 }
 
+// Per-platform breaker: open after failureThreshold outage-type failures
+// within windowMs, allow a single trial request once cooldownMs has passed
+export interface CircuitBreakerSettings {
+  failureThreshold: number;
+  windowMs: number;
+  cooldownMs: number;
+}
+
+// Element names within an RSS <item> / Atom <entry>; "tag@attr" reads an
+// attribute instead of text (e.g. "link@href")
+export interface FeedFieldMappings {
+  title?: string;
+  company?: string;
+  link?: string;
+  location?: string;
+  date?: string;
+  content?: string;
+}
+
+export interface FeedDefinition {
+  url: string;
+  company?: string; // Used when no company field is mapped or present
+  titlePattern?: string; // Regex with (?<title>) / (?<company>) groups
+  fields?: FeedFieldMappings;
+}
+
 export interface SourceDefinition {
   type: string;
   phase: number;
@@ -76,7 +288,12 @@ export interface SourceDefinition {
   urlTemplate?: string;
   purpose?: string;
   queries?: string[];
+  feed?: FeedDefinition; // Required when type is "feed"
+  locale?: string; // Career-site language (Taleo "en", SuccessFactors "en_US")
+  detailFetch?: boolean; // Fetch full descriptions for jobs passing the gates
+  detailHosts?: string[]; // Limits detailFetch to these hosts and subdomains
   rateLimiting?: RateLimiting;
+  circuitBreaker?: CircuitBreakerSettings;
   timeoutMs: number;
 }
 
@@ -95,6 +312,15 @@ export interface CompaniesConfig {
   bamboohr: string[];
   workday: string[];
   icims: string[];
+  recruitee: string[];
+  teamtailor: string[];
+  personio: string[];
+  taleo: string[];
+  successfactors: string[];
+  jsonld: string[]; // Full career-page URLs embedding JobPosting JSON-LD
+  jobbank: string[]; // NOC 2021 codes searched on Job Bank
+  publicsector: string[]; // Provincial portal keys, e.g. "ontario"
+  hackernews: string[]; // HN accounts posting hiring threads ("whoishiring")
 }
 
 export interface EnvConfig {
@@ -121,13 +347,20 @@ export interface EnvConfig {
 export interface AppConfig {
   env: EnvConfig;
   locations: LocationConfig;
+  gazetteer: GazetteerConfig;
   includeTitles: TitleConfig;
   rejectTitles: TitleConfig;
   maybeTitles: TitleConfig;
   modes: ModeConfig;
+  seniority: SeniorityConfig;
+  language: LanguageConfig;
+  workAuthorization: WorkAuthorizationConfig;
+  skills: SkillsConfig;
   scoring: ScoringConfig;
   sources: SourceConfig;
   companies: CompaniesConfig;
+  companyAliases: CompanyAliasesConfig;
+  companyPreferences: CompanyPreferencesConfig;
 }
 
 const CONFIG_DIR = join(import.meta.dir, "../config");
@@ -210,13 +443,26 @@ export function loadConfig(): AppConfig {
 
   const env = loadEnvConfig();
   const locations = loadJsonConfig<LocationConfig>("locations.json");
+  const gazetteer = loadJsonConfig<GazetteerConfig>("gazetteer.json");
   const includeTitles = loadJsonConfig<TitleConfig>("include-titles.json");
   const rejectTitles = loadJsonConfig<TitleConfig>("reject-titles.json");
   const maybeTitles = loadJsonConfig<TitleConfig>("maybe-titles.json");
   const modes = loadJsonConfig<ModeConfig>("modes.json");
+  const seniority = loadJsonConfig<SeniorityConfig>("seniority.json");
+  const language = loadJsonConfig<LanguageConfig>("language.json");
+  const workAuthorization = loadJsonConfig<WorkAuthorizationConfig>(
+    "work-authorization.json",
+  );
+  const skills = loadJsonConfig<SkillsConfig>("skills.json");
   const scoring = loadJsonConfig<ScoringConfig>("scoring.json");
   const sources = loadJsonConfig<SourceConfig>("sources.json");
   const companies = loadJsonConfig<CompaniesConfig>("companies.json");
+  const companyAliases = loadJsonConfig<CompanyAliasesConfig>(
+    "company-aliases.json",
+  );
+  const companyPreferences = loadJsonConfig<CompanyPreferencesConfig>(
+    "company-preferences.json",
+  );
 
   if (!env.telegramBotToken) {
     logger.warn("TELEGRAM_BOT_TOKEN not set — alerts will not be sent");
@@ -247,17 +493,37 @@ export function loadConfig(): AppConfig {
     companies.smartrecruiters.length +
     companies.bamboohr.length +
     companies.workday.length +
-    companies.icims.length;
+    companies.icims.length +
+    (companies.recruitee?.length ?? 0) +
+    (companies.teamtailor?.length ?? 0) +
+    (companies.personio?.length ?? 0) +
+    (companies.taleo?.length ?? 0) +
+    (companies.successfactors?.length ?? 0) +
+    (companies.jsonld?.length ?? 0) +
+    (companies.jobbank?.length ?? 0) +
+    (companies.publicsector?.length ?? 0) +
+    (companies.hackernews?.length ?? 0);
 
   logger.info(`Config loaded successfully:`);
   logger.info(`  - ${Object.keys(locations.tiers).length} location tiers`);
-  logger.info(`  - ${includeTitles.patterns.length} include title patterns`);
-  logger.info(`  - ${rejectTitles.patterns.length} reject title patterns`);
-  logger.info(`  - ${maybeTitles.patterns.length} ambiguous title patterns`);
+  logger.info(`  - location scoring: ${scoring.location?.method ?? "tiers"}`);
+  logger.info(
+    `  - ${includeTitles.patterns.length} include title patterns, ${includeTitles.rules?.length ?? 0} rules`,
+  );
+  logger.info(
+    `  - ${rejectTitles.patterns.length} reject title patterns, ${rejectTitles.rules?.length ?? 0} rules`,
+  );
+  logger.info(
+    `  - ${maybeTitles.patterns.length} ambiguous title patterns, ${maybeTitles.rules?.length ?? 0} rules`,
+  );
+  logger.info(`  - ${skills.skills.length} skills in taxonomy`);
   logger.info(
     `  - ${enabledSources.length} enabled sources: ${enabledSources.join(", ") || "none"}`,
   );
   logger.info(`  - ${totalCompanies} seed companies`);
+  logger.info(
+    `  - ${Object.keys(companyPreferences.companies).length} company preferences`,
+  );
   logger.info(`  - ${env.serpApiKeys.length} SerpApi keys`);
   logger.info(`  - Environment: ${env.nodeEnv}`);
   logger.info(`  - Timezone: ${env.timezone}`);
@@ -265,13 +531,20 @@ export function loadConfig(): AppConfig {
   return {
     env,
     locations,
+    gazetteer,
     includeTitles,
     rejectTitles,
     maybeTitles,
     modes,
+    seniority,
+    language,
+    workAuthorization,
+    skills,
     scoring,
     sources,
     companies,
+    companyAliases,
+    companyPreferences,
   };
 }
 
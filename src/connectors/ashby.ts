@@ -26,6 +26,18 @@ interface AshbyJob {
   descriptionPlain?: string;
   isRemote?: boolean;
   compensationTierSummary?: string;
+  compensation?: AshbyCompensation; // Only with ?includeCompensation=true
+}
+
+interface AshbyCompensation {
+  compensationTierSummary?: string; // "$120K – $150K • Offers Equity"
+  summaryComponents?: Array<{
+    compensationType?: string; // "Salary", "EquityPercentage", ...
+    interval?: string; // "1 YEAR", "1 HOUR"
+    currencyCode?: string;
+    minValue?: number | null;
+    maxValue?: number | null;
+  }>;
 }
 
 interface AshbyResponse {
@@ -45,8 +57,22 @@ export async function fetchAshbyJobs(
     timeoutMs: sourceConfig.timeoutMs,
     maxRetries: sourceConfig.rateLimiting?.maxRetries ?? 3,
     backoffStartMs: sourceConfig.rateLimiting?.backoffStartMs ?? 5000,
+    conditional: true,
   });
 
+  if (result.notModified) {
+    logger.debug(`Ashby/${company}: not modified (${result.responseTimeMs}ms)`);
+    return {
+      source: "ashby",
+      company,
+      jobs: [],
+      success: true,
+      responseTimeMs: result.responseTimeMs,
+      rateLimited: result.rateLimited,
+      notModified: true,
+    };
+  }
+
   if (!result.success || !result.data) {
     return {
       source: "ashby",
@@ -1,5 +1,7 @@
 import { logger } from "../logger";
-import type { RateLimiting } from "../config";
+import { getHttpValidators, saveHttpValidators } from "../db/operations";
+import { allowRequest, recordCircuitResult } from "./circuit-breaker";
+import type { CircuitBreakerSettings, RateLimiting } from "../config";
 
 export interface FetchWithRetryOptions {
   url: string;
@@ -7,6 +9,8 @@ export interface FetchWithRetryOptions {
   maxRetries: number;
   backoffStartMs: number;
   signal?: AbortSignal;
+  body?: unknown; // Sent as JSON with POST when set
+  conditional?: boolean; // Send stored ETag/Last-Modified; 304 → notModified
 }
 
 export interface FetchResult<T> {
@@ -16,8 +20,11 @@ export interface FetchResult<T> {
   rateLimited: boolean;
   responseTimeMs: number;
   statusCode?: number;
+  notModified?: boolean; // 304: success with no data
 }
 
+// Circuit breakers are checked and updated by the caller (batchFetch, the
+// detail fetch) so each request counts once
 export async function fetchWithRetry<T>(
   options: FetchWithRetryOptions,
 ): Promise<FetchResult<T>> {
@@ -25,6 +32,10 @@ export async function fetchWithRetry<T>(
   let lastError = "";
   let rateLimited = false;
   const startTime = Date.now();
+  const validators =
+    options.conditional && options.body === undefined
+      ? getHttpValidators(url)
+      : null;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     let timeout: ReturnType<typeof setTimeout> | undefined;
@@ -33,13 +44,34 @@ export async function fetchWithRetry<T>(
       timeout = setTimeout(() => controller.abort(), timeoutMs);
 
       const response = await fetch(url, {
+        method: options.body === undefined ? "GET" : "POST",
         signal: controller.signal,
         headers: {
           Accept: "application/json",
           "User-Agent": "JobSearchEngine/1.0",
+          ...(options.body === undefined
+            ? {}
+            : { "Content-Type": "application/json" }),
+          ...(validators?.etag ? { "If-None-Match": validators.etag } : {}),
+          ...(validators?.last_modified
+            ? { "If-Modified-Since": validators.last_modified }
+            : {}),
         },
+        body:
+          options.body === undefined ? undefined : JSON.stringify(options.body),
       });
 
+      if (response.status === 304 && validators) {
+        return {
+          data: null,
+          success: true,
+          rateLimited,
+          responseTimeMs: Date.now() - startTime,
+          statusCode: 304,
+          notModified: true,
+        };
+      }
+
       if (response.status === 429) {
         rateLimited = true;
         const retryAfter = response.headers.get("Retry-After");
@@ -104,6 +136,16 @@ export async function fetchWithRetry<T>(
 
       clearTimeout(timeout); // NOW it is safe to clear timeout
 
+      // Only remember validators once the body parsed, so a truncated
+      // response can't turn into a permanent 304
+      if (options.conditional) {
+        const etag = response.headers.get("ETag");
+        const lastModified = response.headers.get("Last-Modified");
+        if (etag || lastModified) {
+          saveHttpValidators(url, etag, lastModified);
+        }
+      }
+
       return {
         data,
         success: true,
@@ -143,12 +185,19 @@ export interface BatchFetchOptions<T> {
   fetchFn: (item: string) => Promise<T>;
   rateLimiting: RateLimiting;
   onProgress?: (completed: number, total: number) => void;
+  // With circuitKey set, outage errors reported by getError feed the
+  // platform breaker, any other result closes it, and an open breaker skips
+  // the remaining items
+  circuitKey?: string;
+  circuitBreaker?: CircuitBreakerSettings;
+  getError?: (result: T) => string | undefined;
 }
 
 export async function batchFetch<T>(
   options: BatchFetchOptions<T>,
 ): Promise<T[]> {
-  const { items, fetchFn, rateLimiting, onProgress } = options;
+  const { items, fetchFn, rateLimiting, onProgress, circuitKey, getError } =
+    options;
   const results: T[] = [];
   let completed = 0;
 
@@ -157,9 +206,25 @@ export async function batchFetch<T>(
 
     for (let j = 0; j < batch.length; j++) {
       const item = batch[j];
+
+      if (circuitKey && !allowRequest(circuitKey, options.circuitBreaker)) {
+        logger.warn(
+          `${circuitKey}: circuit open — skipping ${items.length - completed} remaining items`,
+        );
+        return results;
+      }
+
       try {
         const result = await fetchFn(item);
         results.push(result);
+
+        if (circuitKey) {
+          await recordCircuitResult(
+            circuitKey,
+            getError?.(result),
+            options.circuitBreaker,
+          );
+        }
       } catch (e) {
         logger.error(`Batch item failed: ${item} - ${e}`);
       }
@@ -0,0 +1,69 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { initializeDatabase } from "../db";
+import {
+  allowRequest,
+  getCircuitState,
+  recordCircuitResult,
+} from "./circuit-breaker";
+import type { CircuitBreakerSettings } from "../config";
+
+// A cooldown of 0 lets the next allowRequest start the half-open trial
+const SETTINGS: CircuitBreakerSettings = {
+  failureThreshold: 2,
+  windowMs: 60_000,
+  cooldownMs: 0,
+};
+
+async function openBreaker(key: string): Promise<void> {
+  await recordCircuitResult(key, "Server error: 503", SETTINGS);
+  await recordCircuitResult(key, "Server error: 503", SETTINGS);
+  expect(getCircuitState(key)).toBe("open");
+}
+
+beforeAll(() => initializeDatabase());
+
+describe("circuit breaker", () => {
+  test("opens after failureThreshold outage errors", async () => {
+    await openBreaker("test-open");
+    const settings = { ...SETTINGS, cooldownMs: 60_000 };
+    expect(allowRequest("test-open", settings)).toBe(false);
+  });
+
+  test("ignores non-outage errors while closed", async () => {
+    await recordCircuitResult("test-404", "Not found: 404", SETTINGS);
+    await recordCircuitResult("test-404", "Rate limited", SETTINGS);
+    expect(getCircuitState("test-404")).toBe("closed");
+  });
+
+  test.each(["Not found: 404", "Rate limited", "Invalid JSON response"])(
+    "closes a half-open breaker when the trial gets %p",
+    async (error) => {
+      const key = `test-trial-${error}`;
+      await openBreaker(key);
+      expect(allowRequest(key, SETTINGS)).toBe(true);
+      expect(getCircuitState(key)).toBe("half_open");
+
+      await recordCircuitResult(key, error, SETTINGS);
+
+      expect(getCircuitState(key)).toBe("closed");
+      expect(allowRequest(key, SETTINGS)).toBe(true);
+    },
+  );
+
+  test("reopens a half-open breaker on an outage error", async () => {
+    await openBreaker("test-reopen");
+    expect(allowRequest("test-reopen", SETTINGS)).toBe(true);
+
+    await recordCircuitResult("test-reopen", "Timeout after 30000ms", SETTINGS);
+
+    expect(getCircuitState("test-reopen")).toBe("open");
+  });
+
+  test("lets only one trial through while half-open", async () => {
+    await openBreaker("test-single");
+    expect(allowRequest("test-single", SETTINGS)).toBe(true);
+    // The trial just started, so a second request within the cooldown waits
+    const settings = { ...SETTINGS, cooldownMs: 60_000 };
+    expect(allowRequest("test-single", settings)).toBe(false);
+  });
+});
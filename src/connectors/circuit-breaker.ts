@@ -0,0 +1,163 @@
+import { logger } from "../logger";
+import { sendSystemAlert } from "../alerts";
+import {
+  getCircuitBreaker,
+  saveCircuitBreaker,
+  type CircuitBreakerRow,
+} from "../db/operations";
+import type { CircuitBreakerSettings } from "../config";
+
+// Per-platform circuit breaker around batchFetch and detail fetches. When a
+// platform such as Workday is down, the breaker opens after a burst of
+// failures and the remaining tenants are skipped instead of each burning
+// maxRetries attempts. State is kept in circuit_breakers so it survives
+// restarts and is visible to `bun run status`.
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerSettings = {
+  failureThreshold: 5,
+  windowMs: 10 * 60 * 1000,
+  cooldownMs: 30 * 60 * 1000,
+};
+
+// Errors that point at the platform rather than one board: server errors,
+// timeouts and connection failures. Throttling (429), 404s, bad slugs and
+// parse failures never trip the breaker: the platform answered.
+const OUTAGE_ERROR_PATTERN =
+  /^(server error|timeout after)|fetch failed|connection|ECONN|ENOTFOUND|ETIMEDOUT|socket/i;
+
+export function isOutageError(error: string | undefined): boolean {
+  return !!error && OUTAGE_ERROR_PATTERN.test(error);
+}
+
+// False while the breaker is open; after cooldownMs it moves to half-open
+// and lets exactly one trial request through. Other requests stay blocked
+// until the trial reports back through recordCircuitResult; a trial that
+// never does (the process exiting) is replaced by a new one after cooldownMs.
+export function allowRequest(
+  key: string,
+  settings: CircuitBreakerSettings = DEFAULT_CIRCUIT_BREAKER,
+): boolean {
+  const row = getCircuitBreaker(key);
+  if (!row || row.state === "closed") {
+    return true;
+  }
+
+  // opened_at is when the breaker opened, or when the current trial started
+  const openedAt = Date.parse(row.opened_at ?? "");
+  if (Date.now() - openedAt < settings.cooldownMs) {
+    return false;
+  }
+
+  saveCircuitBreaker({
+    ...toState(row),
+    state: "half_open",
+    opened_at: new Date().toISOString(),
+  });
+  logger.info(`Circuit ${key}: half-open — sending a trial request`);
+  return true;
+}
+
+// Outage errors count as failures; any other outcome, including a 404, 429
+// or parse failure, means the platform answered and closes the breaker
+export async function recordCircuitResult(
+  key: string,
+  error: string | undefined,
+  settings?: CircuitBreakerSettings,
+): Promise<void> {
+  if (error && isOutageError(error)) {
+    await recordCircuitFailure(key, error, settings);
+  } else {
+    recordCircuitSuccess(key);
+  }
+}
+
+export function recordCircuitSuccess(key: string): void {
+  const row = getCircuitBreaker(key);
+  if (!row || (row.state === "closed" && row.failure_count === 0)) {
+    return;
+  }
+
+  if (row.state !== "closed") {
+    logger.info(`Circuit ${key}: closed — platform is responding again`);
+  }
+  saveCircuitBreaker({
+    key,
+    state: "closed",
+    failure_count: 0,
+    window_started_at: null,
+    opened_at: null,
+    last_error: null,
+  });
+}
+
+export async function recordCircuitFailure(
+  key: string,
+  error: string,
+  settings: CircuitBreakerSettings = DEFAULT_CIRCUIT_BREAKER,
+): Promise<void> {
+  const now = new Date();
+  const row = getCircuitBreaker(key);
+
+  if (row?.state === "open") {
+    return;
+  }
+
+  if (row?.state === "half_open") {
+    saveCircuitBreaker({
+      ...toState(row),
+      state: "open",
+      opened_at: now.toISOString(),
+      last_error: error,
+    });
+    logger.warn(`Circuit ${key}: trial request failed — reopening`);
+    return;
+  }
+
+  const inWindow =
+    !!row?.window_started_at &&
+    now.getTime() - Date.parse(row.window_started_at) < settings.windowMs;
+  const failureCount = (inWindow ? row!.failure_count : 0) + 1;
+  const windowStartedAt = inWindow
+    ? row!.window_started_at
+    : now.toISOString();
+
+  if (failureCount < settings.failureThreshold) {
+    saveCircuitBreaker({
+      key,
+      state: "closed",
+      failure_count: failureCount,
+      window_started_at: windowStartedAt,
+      opened_at: null,
+      last_error: error,
+    });
+    return;
+  }
+
+  saveCircuitBreaker({
+    key,
+    state: "open",
+    failure_count: failureCount,
+    window_started_at: windowStartedAt,
+    opened_at: now.toISOString(),
+    last_error: error,
+  });
+
+  const cooldownMinutes = Math.round(settings.cooldownMs / 60000);
+  logger.error(
+    `Circuit ${key}: open after ${failureCount} failures — pausing requests for ${cooldownMinutes}m`,
+  );
+  await sendSystemAlert(
+    `🚨 SYSTEM ALERT — ${key} circuit open\n${failureCount} failures within ${Math.round(settings.windowMs / 60000)} minutes (last: ${error}).\nSkipping ${key} requests for ${cooldownMinutes} minutes before retrying.`,
+  );
+}
+
+export function getCircuitState(key: string): CircuitBreakerRow["state"] {
+  return getCircuitBreaker(key)?.state ?? "closed";
+}
+
+function toState(
+  row: CircuitBreakerRow,
+): Omit<CircuitBreakerRow, "updated_at"> {
+  const { updated_at: _updatedAt, ...state } = row;
+  return state;
+}
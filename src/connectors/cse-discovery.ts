@@ -12,6 +12,13 @@ const ATS_PATTERNS = {
   bamboohr: /https?:\/\/jobs\.bamboohr\.com\/([a-zA-Z0-9-]+)/i,
   workday: /https?:\/\/([a-zA-Z0-9.-]+\.myworkdayjobs\.com\/[^\s"'<>]+)/i,
   icims: /https?:\/\/(careers\.icims\.com\/[^\s"'<>]+)/i,
+  recruitee: /https?:\/\/(?!www\.)([a-zA-Z0-9-]+)\.recruitee\.com/i,
+  teamtailor: /https?:\/\/(?!www\.|app\.)([a-zA-Z0-9-]+)\.teamtailor\.com/i,
+  personio: /https?:\/\/([a-zA-Z0-9-]+)\.jobs\.personio\.(?:de|com)/i,
+  taleo:
+    /https?:\/\/([a-zA-Z0-9-]+\.taleo\.net\/careersection\/[a-zA-Z0-9_-]+)/i,
+  successfactors:
+    /https?:\/\/(career\d*\.successfactors\.(?:com|eu)\/career\?company=[a-zA-Z0-9_-]+)/i,
 } as const;
 
 const DISCOVERY_QUERIES = [
@@ -24,6 +31,11 @@ const DISCOVERY_QUERIES = [
   "site:jobs.bamboohr.com software engineer canada",
   "site:myworkdayjobs.com software engineer canada",
   "site:careers.icims.com software engineer canada",
+  "site:recruitee.com software engineer canada",
+  "site:teamtailor.com software engineer canada",
+  "site:jobs.personio.de software engineer",
+  "site:taleo.net careersection software developer canada",
+  "site:successfactors.com career software developer canada",
   "site:boards.greenhouse.io developer toronto",
   "site:jobs.lever.co frontend developer",
   "site:jobs.ashbyhq.com backend developer",
@@ -57,6 +69,11 @@ export async function runBoardDiscovery(
       bamboohr: 0,
       workday: 0,
       icims: 0,
+      recruitee: 0,
+      teamtailor: 0,
+      personio: 0,
+      taleo: 0,
+      successfactors: 0,
     },
   };
 
@@ -86,7 +103,10 @@ export async function runBoardDiscovery(
         if (!match) continue;
 
         const boardSlug =
-          platform === "workday" || platform === "icims"
+          platform === "workday" ||
+          platform === "icims" ||
+          platform === "taleo" ||
+          platform === "successfactors"
             ? match[1]
             : match[1].toLowerCase();
         const boardUrl = normalizeBoardUrl(platform, boardSlug);
@@ -101,7 +121,12 @@ export async function runBoardDiscovery(
             | "smartrecruiters"
             | "bamboohr"
             | "workday"
-            | "icims",
+            | "icims"
+            | "recruitee"
+            | "teamtailor"
+            | "personio"
+            | "taleo"
+            | "successfactors",
           boardUrl,
           boardSlug,
           companyGuess,
@@ -143,5 +168,14 @@ function normalizeBoardUrl(platform: string, slug: string): string {
   if (platform === "bamboohr") {
     return `https://jobs.bamboohr.com/${slug}`;
   }
+  if (platform === "recruitee") {
+    return `https://${slug}.recruitee.com`;
+  }
+  if (platform === "teamtailor") {
+    return `https://${slug}.teamtailor.com`;
+  }
+  if (platform === "personio") {
+    return `https://${slug}.jobs.personio.de`;
+  }
   return `https://${slug}`;
 }
@@ -0,0 +1,104 @@
+import {
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import { initializeDatabase } from "../db";
+import { fetchJobDetail } from "./detail";
+import type { SourceDefinition } from "../config";
+import type { RawJob } from "../types";
+
+const SERPAPI_SOURCE: SourceDefinition = {
+  type: "serpapi-query-pack",
+  phase: 3,
+  enabled: true,
+  detailFetch: true,
+  detailHosts: ["linkedin.com"],
+  schedule: "0 8,20 * * *",
+  scheduleDescription: "",
+  rateLimiting: {
+    delayBetweenRequestsMs: 0,
+    batchSize: 10,
+    batchPauseMs: 0,
+    maxRetries: 0,
+    backoffStartMs: 0,
+  },
+  timeoutMs: 5000,
+};
+
+const DESCRIPTION = Array(5)
+  .fill("We are looking for a developer to build our payments platform.")
+  .join(" ");
+
+function serpJob(url: string): RawJob {
+  return {
+    source: "serpapi-aggregators",
+    sourceJobId: url,
+    title: "Software Developer",
+    company: "Acme",
+    url,
+    locationRaw: "Toronto, ON",
+    postedAt: null,
+    originalTimezone: null,
+    content: "Snippet",
+    rawPayload: "{}",
+  };
+}
+
+function mockPage(html: string) {
+  return spyOn(globalThis, "fetch").mockResolvedValue(
+    new Response(html, { headers: { "Content-Type": "text/html" } }),
+  );
+}
+
+beforeAll(() => initializeDatabase());
+afterEach(() => mock.restore());
+
+describe("fetchJobDetail with detailHosts", () => {
+  test("skips links outside the listed hosts without fetching", async () => {
+    const fetchSpy = mockPage("<html></html>");
+
+    const detail = await fetchJobDetail(
+      serpJob("https://ca.indeed.com/viewjob?jk=1"),
+      "hash-indeed",
+      SERPAPI_SOURCE,
+    );
+
+    expect(detail).toBeNull();
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  test("reads the JSON-LD description on a listed host", async () => {
+    mockPage(
+      `<script type="application/ld+json">${JSON.stringify({
+        "@type": "JobPosting",
+        title: "Software Developer",
+        description: DESCRIPTION,
+      })}</script>`,
+    );
+
+    const detail = await fetchJobDetail(
+      serpJob("https://ca.linkedin.com/jobs/view/123"),
+      "hash-linkedin-jsonld",
+      SERPAPI_SOURCE,
+    );
+
+    expect(detail).toBe(DESCRIPTION);
+  });
+
+  test("ignores page text when a listed host has no JSON-LD", async () => {
+    mockPage(`<html><body><main>Sign in to continue. ${DESCRIPTION}</main>`);
+
+    const detail = await fetchJobDetail(
+      serpJob("https://ca.linkedin.com/jobs/view/456"),
+      "hash-linkedin-wall",
+      SERPAPI_SOURCE,
+    );
+
+    expect(detail).toBeNull();
+  });
+});
@@ -0,0 +1,221 @@
+import { logger } from "../logger";
+import { fetchWithRetry, sleep, type FetchResult } from "./base";
+import { fetchHtml, loadCheerio, cleanText } from "./page-parser-base";
+import { parseJsonLdPage } from "./jsonld";
+import {
+  allowRequest,
+  recordCircuitResult,
+  recordCircuitSuccess,
+} from "./circuit-breaker";
+import { getCachedJobDetail, cacheJobDetail } from "../db/operations";
+import type { RawJob } from "../types";
+import type { RateLimiting, SourceDefinition } from "../config";
+
+// Second-stage description fetch for sources whose list endpoints carry only
+// a title or snippet (Workday, iCIMS, SuccessFactors, SerpApi). Enabled per
+// source with "detailFetch": true. SerpApi result links point at arbitrary
+// third-party sites, so those sources list "detailHosts": only links on
+// those hosts are fetched, only a JSON-LD JobPosting counts as a
+// description, and each host gets its own circuit breaker. Results are
+// cached by urlHash, including pages that loaded without a description, so
+// each posting is parsed at most once. Failed requests (timeouts, 429s, 5xx)
+// are not cached and retry on a later run.
+
+const MAX_DETAIL_LENGTH = 20000;
+const MIN_DETAIL_LENGTH = 200; // Shorter matches are usually nav/cookie text
+
+const DETAIL_SELECTORS: Record<string, string[]> = {
+  icims: [".iCIMS_JobContent", ".iCIMS_Expandable_Text"],
+  successfactors: ['[itemprop="description"]', ".jobdescription"],
+};
+const FALLBACK_SELECTORS = ["main", "article", '[role="main"]', "body"];
+
+const DEFAULT_RATE_LIMITING: RateLimiting = {
+  delayBetweenRequestsMs: 500,
+  batchSize: 10,
+  batchPauseMs: 3000,
+  maxRetries: 3,
+  backoffStartMs: 5000,
+};
+
+interface WorkdayDetailResponse {
+  jobPostingInfo?: {
+    jobDescription?: string;
+  };
+}
+
+const pacing = new Map<string, { count: number; lastAt: number }>();
+
+export async function fetchJobDetail(
+  job: RawJob,
+  urlHash: string,
+  sourceConfig: SourceDefinition,
+): Promise<string | null> {
+  const circuitKey = detailCircuitKey(job, sourceConfig);
+  if (!circuitKey) {
+    return null;
+  }
+
+  const cached = getCachedJobDetail(urlHash);
+  if (cached) {
+    return cached.content;
+  }
+
+  // Don't cache a miss while the platform is down — retry on a later run
+  if (!allowRequest(circuitKey, sourceConfig.circuitBreaker)) {
+    return null;
+  }
+
+  const rateLimiting = sourceConfig.rateLimiting ?? DEFAULT_RATE_LIMITING;
+  await pace(circuitKey, rateLimiting);
+
+  let content: string | null;
+  try {
+    content =
+      job.source === "workday" && job.detailUrl
+        ? await fetchWorkdayDetail(job.detailUrl, sourceConfig, rateLimiting)
+        : await fetchPageDetail(job, sourceConfig, rateLimiting);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Detail fetch failed for ${job.source}/${job.url}: ${message}`);
+    await recordCircuitResult(circuitKey, message, sourceConfig.circuitBreaker);
+    return null;
+  }
+  recordCircuitSuccess(circuitKey);
+
+  if (content) {
+    content = content.slice(0, MAX_DETAIL_LENGTH);
+  } else {
+    logger.debug(`Detail fetch: no description found for ${job.url}`);
+  }
+
+  cacheJobDetail(urlHash, job.source, content);
+  return content;
+}
+
+// The source itself, or "<source>:<host>" for sources limited to
+// detailHosts; null when the job's URL is on none of those hosts
+function detailCircuitKey(
+  job: RawJob,
+  sourceConfig: SourceDefinition,
+): string | null {
+  if (!sourceConfig.detailHosts) {
+    return job.source;
+  }
+
+  let hostname: string;
+  try {
+    hostname = new URL(job.url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+  const host = sourceConfig.detailHosts.find(
+    (h) => hostname === h || hostname.endsWith(`.${h}`),
+  );
+  return host ? `${job.source}:${host}` : null;
+}
+
+// Space requests by delayBetweenRequestsMs, with batchPauseMs every batchSize
+async function pace(source: string, rateLimiting: RateLimiting): Promise<void> {
+  const state = pacing.get(source) ?? { count: 0, lastAt: 0 };
+  const waitMs =
+    state.count > 0 && state.count % rateLimiting.batchSize === 0
+      ? rateLimiting.batchPauseMs
+      : rateLimiting.delayBetweenRequestsMs;
+
+  const elapsed = Date.now() - state.lastAt;
+  if (elapsed < waitMs) {
+    await sleep(waitMs - elapsed);
+  }
+
+  state.count++;
+  state.lastAt = Date.now();
+  pacing.set(source, state);
+}
+
+async function fetchWorkdayDetail(
+  detailUrl: string,
+  sourceConfig: SourceDefinition,
+  rateLimiting: RateLimiting,
+): Promise<string | null> {
+  const result: FetchResult<WorkdayDetailResponse> = await fetchWithRetry({
+    url: detailUrl,
+    timeoutMs: sourceConfig.timeoutMs,
+    maxRetries: rateLimiting.maxRetries,
+    backoffStartMs: rateLimiting.backoffStartMs,
+  });
+  if (!result.success) {
+    throw new Error(result.error ?? "Unknown error");
+  }
+
+  return result.data?.jobPostingInfo?.jobDescription?.trim() || null;
+}
+
+async function fetchPageDetail(
+  job: RawJob,
+  sourceConfig: SourceDefinition,
+  rateLimiting: RateLimiting,
+): Promise<string | null> {
+  let url = job.detailUrl ?? job.url;
+  if (job.source === "icims") {
+    // iCIMS renders the posting inside an iframe; ask for the inner document
+    url += url.includes("?") ? "&in_iframe=1" : "?in_iframe=1";
+  }
+
+  const page = await fetchHtml({
+    source: job.source,
+    company: job.company,
+    url,
+    timeoutMs: sourceConfig.timeoutMs,
+    maxRetries: rateLimiting.maxRetries,
+    backoffStartMs: rateLimiting.backoffStartMs,
+  });
+  if (!page.success) {
+    throw new Error(page.error ?? "Unknown error");
+  }
+  if (!page.html) {
+    return null;
+  }
+
+  return extractDescription(
+    page.html,
+    job.source,
+    url,
+    !sourceConfig.detailHosts,
+  );
+}
+
+// Third-party pages (detailHosts) only count a JSON-LD JobPosting: their
+// <main> or <body> is as likely a login wall or cookie banner
+function extractDescription(
+  html: string,
+  source: string,
+  url: string,
+  useSelectors: boolean,
+): string | null {
+  const posting = parseJsonLdPage(html, url, url).find(
+    (p) => p.content && p.content !== p.title,
+  );
+  if (posting) {
+    return posting.content;
+  }
+  if (!useSelectors) {
+    return null;
+  }
+
+  const $ = loadCheerio(html);
+  $("script, style, noscript, nav, header, footer, form").remove();
+
+  const selectors = [
+    ...(DETAIL_SELECTORS[source] ?? []),
+    ...FALLBACK_SELECTORS,
+  ];
+  for (const selector of selectors) {
+    const text = cleanText($(selector).first().text());
+    if (text.length >= MIN_DETAIL_LENGTH) {
+      return text;
+    }
+  }
+
+  return null;
+}
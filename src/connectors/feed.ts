@@ -0,0 +1,122 @@
+import { logger } from "../logger";
+import type { ConnectorResult } from "../types";
+import type { SourceDefinition } from "../config";
+import {
+  fetchPageParserJobs,
+  createPageParserError,
+  loadCheerioXml,
+  cleanText,
+  generateJobId,
+  type ParsedJob,
+} from "./page-parser-base";
+
+// Config-driven RSS 2.0 / Atom connector. Every sources.json entry with
+// "type": "feed" is polled once per run; "company" is the source name and
+// the feed's URL and field mappings come from its `feed` block.
+
+const DEFAULT_FIELDS = {
+  title: ["title"],
+  link: ["link", "link@href"],
+  date: ["pubDate", "updated", "published", "dc:date"],
+  content: ["content:encoded", "description", "summary", "content"],
+};
+
+export async function fetchFeedJobs(
+  name: string,
+  sourceConfig: SourceDefinition,
+): Promise<ConnectorResult> {
+  const feed = sourceConfig.feed;
+  if (!feed?.url) {
+    return createPageParserError(
+      name,
+      name,
+      `Feed source "${name}" has no feed.url configured`,
+      Date.now(),
+    );
+  }
+
+  return fetchPageParserJobs(
+    name,
+    name,
+    { ...sourceConfig, urlTemplate: feed.url },
+    (xml) => parseFeed(xml, name, sourceConfig),
+  );
+}
+
+function parseFeed(
+  xml: string,
+  name: string,
+  sourceConfig: SourceDefinition,
+): ParsedJob[] {
+  const feed = sourceConfig.feed!;
+  const fields = feed.fields ?? {};
+  const titlePattern = feed.titlePattern ? new RegExp(feed.titlePattern) : null;
+
+  const $ = loadCheerioXml(xml);
+  const jobs: ParsedJob[] = [];
+
+  $("item, entry").each((_i, el) => {
+    try {
+      const $entry = $(el);
+
+      // First non-empty value among the candidate "tag" / "tag@attr" specs
+      const read = (specs: string[]): string => {
+        for (const spec of specs) {
+          const [tag, attr] = spec.split("@");
+          const $el = $entry.children(tag!.replace(/:/g, "\\:")).first();
+          if ($el.length === 0) continue;
+
+          const value = attr ? ($el.attr(attr) ?? "") : $el.text();
+          if (value.trim()) {
+            return value;
+          }
+        }
+        return "";
+      };
+
+      let title = cleanText(
+        read(fields.title ? [fields.title] : DEFAULT_FIELDS.title),
+      );
+      let company = fields.company ? cleanText(read([fields.company])) : "";
+
+      // e.g. "Acme: Senior Developer" when the feed has no company element
+      const titleMatch = titlePattern ? title.match(titlePattern) : null;
+      if (titleMatch?.groups) {
+        company ||= cleanText(titleMatch.groups.company ?? "");
+        title = cleanText(titleMatch.groups.title ?? title);
+      }
+
+      const url = read(fields.link ? [fields.link] : DEFAULT_FIELDS.link).trim();
+      if (!title || !url) {
+        return;
+      }
+
+      const guid = read(["guid", "id"]).trim();
+      const sourceJobId = guid || url || generateJobId(name, company, title);
+
+      const date = read(fields.date ? [fields.date] : DEFAULT_FIELDS.date).trim();
+      const postedAt =
+        date && !Number.isNaN(Date.parse(date))
+          ? new Date(date).toISOString()
+          : null;
+
+      const content = read(
+        fields.content ? [fields.content] : DEFAULT_FIELDS.content,
+      ).trim();
+
+      jobs.push({
+        sourceJobId,
+        title,
+        url,
+        locationRaw: fields.location ? cleanText(read([fields.location])) : "",
+        postedAt,
+        content: content || title,
+        company: company || feed.company || name,
+      });
+    } catch (error) {
+      logger.warn(`Feed/${name}: failed to parse entry: ${error}`);
+    }
+  });
+
+  return jobs;
+}
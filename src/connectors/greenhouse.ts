@@ -42,8 +42,24 @@ export async function fetchGreenhouseJobs(
     timeoutMs: sourceConfig.timeoutMs,
     maxRetries: sourceConfig.rateLimiting?.maxRetries ?? 3,
     backoffStartMs: sourceConfig.rateLimiting?.backoffStartMs ?? 5000,
+    conditional: true,
   });
 
+  if (result.notModified) {
+    logger.debug(
+      `Greenhouse/${company}: not modified (${result.responseTimeMs}ms)`,
+    );
+    return {
+      source: "greenhouse",
+      company,
+      jobs: [],
+      success: true,
+      responseTimeMs: result.responseTimeMs,
+      rateLimited: result.rateLimited,
+      notModified: true,
+    };
+  }
+
   if (!result.success || !result.data) {
     return {
       source: "greenhouse",
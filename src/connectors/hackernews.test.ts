@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { loadConfig } from "../config";
+import { normalizeJob } from "../normalizer";
+import { parseHiringComment, type HnItem } from "./hackernews";
+
+const config = loadConfig();
+
+function workModeOf(text: string) {
+  const job = parseHiringComment(comment(text));
+  return job && normalizeJob(job, config).workMode;
+}
+
+function comment(text: string | null, id = 41000001): HnItem {
+  return {
+    id,
+    created_at: "2026-10-01T15:04:05.000Z",
+    author: text === null ? null : "acme_hiring",
+    text,
+  };
+}
+
+describe("parseHiringComment", () => {
+  test("splits the header into company, title and location", () => {
+    const job = parseHiringComment(
+      comment(
+        'Acme Labs | Senior Backend Engineer | Toronto, ON | Full-time | <a href="https://acme.dev/jobs">https://acme.dev/jobs</a><p>We build APIs in Go.',
+      ),
+    );
+
+    expect(job).toMatchObject({
+      source: "hackernews",
+      sourceJobId: "41000001",
+      company: "Acme Labs",
+      title: "Senior Backend Engineer",
+      locationRaw: "Toronto, ON",
+      url: "https://news.ycombinator.com/item?id=41000001",
+      postedAt: "2026-10-01T15:04:05.000Z",
+    });
+    expect(job?.content).toContain("We build APIs in Go.");
+    expect(job?.content).toContain("Apply: https://acme.dev/jobs");
+  });
+
+  test("picks the segment that names a role as the title", () => {
+    const job = parseHiringComment(
+      comment("Acme (YC W21) | Vancouver, BC | Full Stack Developer"),
+    );
+
+    expect(job?.company).toBe("Acme");
+    expect(job?.title).toBe("Full Stack Developer");
+    expect(job?.locationRaw).toBe("Vancouver, BC");
+  });
+
+  test("treats REMOTE | ONSITE as remote, not hybrid", () => {
+    const header = "Acme | Software Engineer | Montreal, QC | REMOTE | ONSITE";
+
+    expect(parseHiringComment(comment(header))?.locationRaw).toBe(
+      "Montreal, QC (remote)",
+    );
+    expect(workModeOf(header)).toBe("remote");
+    expect(workModeOf("Acme | Software Engineer | REMOTE | ONSITE")).toBe(
+      "remote",
+    );
+  });
+
+  test("keeps REMOTE next to a city remote", () => {
+    expect(workModeOf("Acme | Developer | Toronto, ON | REMOTE")).toBe(
+      "remote",
+    );
+  });
+
+  test("marks a role hybrid only when the header says so", () => {
+    const header = "Acme | Data Engineer | Toronto, ON | Hybrid";
+
+    expect(parseHiringComment(comment(header))?.locationRaw).toBe(
+      "Toronto, ON (hybrid)",
+    );
+    expect(workModeOf(header)).toBe("hybrid");
+  });
+
+  test("labels an on-site-only header", () => {
+    const header = "Acme | Developer | ONSITE";
+
+    expect(parseHiringComment(comment(header))?.locationRaw).toBe("on-site");
+    expect(workModeOf(header)).toBe("onsite");
+  });
+
+  test("leaves the mode to the description without header flags", () => {
+    expect(
+      workModeOf("Acme | Developer | Toronto, ON<p>Fully remote team."),
+    ).toBe("hybrid");
+  });
+
+  test("ignores deleted comments and replies without a header", () => {
+    expect(parseHiringComment(comment(null))).toBeNull();
+    expect(
+      parseHiringComment(comment("Is this role open to new grads?")),
+    ).toBeNull();
+  });
+});
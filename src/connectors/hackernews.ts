@@ -0,0 +1,202 @@
+import { logger } from "../logger";
+import { fetchWithRetry, type FetchResult } from "./base";
+import { loadCheerio, cleanText } from "./page-parser-base";
+import type { RawJob, ConnectorResult, WorkMode } from "../types";
+import type { SourceDefinition } from "../config";
+
+// Monthly "Ask HN: Who is hiring?" thread via the Algolia HN API.
+// "company" is the HN account that posts the threads ("whoishiring");
+// endpointTemplate searches that account's stories.
+
+const HN_ITEMS_URL = "https://hn.algolia.com/api/v1/items/";
+const HN_ITEM_PAGE_URL = "https://news.ycombinator.com/item?id=";
+
+const ROLE_PATTERN =
+  /\b(engineer|developer|programmer|architect|scientist|designer|devops|sre|analyst|manager|lead|intern|founding|cto|head of|full[- ]?stack|front[- ]?end|back[- ]?end)\b/i;
+const NON_LOCATION_PATTERN =
+  /https?:\/\/|full[- ]?time|part[- ]?time|contract|freelance|intern(ship)?s?\b|visa|equity|[$€£]|\b\d+k\b/i;
+
+interface HnSearchHit {
+  objectID: string;
+  title: string;
+  created_at: string;
+}
+
+interface HnSearchResponse {
+  hits: HnSearchHit[];
+}
+
+export interface HnItem {
+  id: number;
+  created_at: string;
+  author: string | null;
+  text: string | null;
+  children?: HnItem[];
+}
+
+export async function fetchHackerNewsJobs(
+  account: string,
+  sourceConfig: SourceDefinition,
+): Promise<ConnectorResult> {
+  if (!sourceConfig.endpointTemplate) {
+    throw new Error(
+      `Missing endpointTemplate for Hacker News config (account: ${account})`,
+    );
+  }
+
+  const startTime = Date.now();
+  const fetchOptions = {
+    timeoutMs: sourceConfig.timeoutMs,
+    maxRetries: sourceConfig.rateLimiting?.maxRetries ?? 3,
+    backoffStartMs: sourceConfig.rateLimiting?.backoffStartMs ?? 5000,
+  };
+
+  const search: FetchResult<HnSearchResponse> = await fetchWithRetry({
+    url: sourceConfig.endpointTemplate.replace("{company}", account),
+    ...fetchOptions,
+  });
+
+  const thread = search.data ? findHiringThread(search.data.hits) : null;
+  if (!search.success || !thread) {
+    return {
+      source: "hackernews",
+      company: account,
+      jobs: [],
+      success: false,
+      error: search.error ?? 'No "Who is hiring?" thread found',
+      responseTimeMs: Date.now() - startTime,
+      rateLimited: search.rateLimited,
+    };
+  }
+
+  const result: FetchResult<HnItem> = await fetchWithRetry({
+    url: `${HN_ITEMS_URL}${thread.objectID}`,
+    ...fetchOptions,
+  });
+
+  if (!result.success || !result.data) {
+    return {
+      source: "hackernews",
+      company: account,
+      jobs: [],
+      success: false,
+      error: result.error,
+      responseTimeMs: Date.now() - startTime,
+      rateLimited: result.rateLimited,
+    };
+  }
+
+  const jobs: RawJob[] = [];
+  for (const comment of result.data.children ?? []) {
+    const job = parseHiringComment(comment);
+    if (job) {
+      jobs.push(job);
+    }
+  }
+
+  logger.debug(
+    `HN/${thread.title}: parsed ${jobs.length} of ${result.data.children?.length ?? 0} comments (${Date.now() - startTime}ms)`,
+  );
+
+  return {
+    source: "hackernews",
+    company: account,
+    jobs,
+    success: true,
+    responseTimeMs: Date.now() - startTime,
+    rateLimited: search.rateLimited || result.rateLimited,
+  };
+}
+
+// Prefer this month's thread; early in the month fall back to the latest one
+function findHiringThread(hits: HnSearchHit[]): HnSearchHit | null {
+  const threads = hits
+    .filter((hit) => /who is hiring\?/i.test(hit.title))
+    .sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at));
+
+  const now = new Date();
+  const monthLabel = `${now.toLocaleString("en-US", { month: "long" })} ${now.getFullYear()}`;
+  return (
+    threads.find((hit) => hit.title.includes(monthLabel)) ?? threads[0] ?? null
+  );
+}
+
+// Top-level comments conventionally open with a header line such as
+// "Acme | Senior Backend Engineer | Toronto, ON or REMOTE (Canada) | https://…"
+export function parseHiringComment(comment: HnItem): RawJob | null {
+  if (!comment.text || !comment.author) return null; // deleted / dead
+
+  const $ = loadCheerio(
+    comment.text.replace(/<p>/gi, "\n").replace(/<br\s*\/?>/gi, "\n"),
+  );
+  const link = $("a[href]").first().attr("href") ?? extractUrl($.text());
+  const lines = $.text()
+    .split("\n")
+    .map((line) => cleanText(line))
+    .filter(Boolean);
+
+  const header = lines[0] ?? "";
+  const segments = header
+    .split("|")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (segments.length < 2) return null;
+
+  const company = segments[0]!.replace(/\s*\(.*?\)\s*$/, "").trim();
+  const titleSegment =
+    segments.slice(1).find((s) => ROLE_PATTERN.test(s)) ?? segments[1]!;
+  const title = titleSegment.replace(/https?:\/\/\S+/g, "").trim();
+  if (!company || !title) return null;
+
+  const locations = segments
+    .slice(1)
+    .filter((s) => s !== titleSegment && !NON_LOCATION_PATTERN.test(s))
+    .filter((s) => !/^(remote|on[\s-]?site|hybrid)$/i.test(s));
+  let locationRaw = locations.join("; ");
+
+  // The REMOTE/ONSITE/HYBRID flags decide the mode outright: keyword
+  // classification would read "REMOTE | ONSITE", or REMOTE next to a city,
+  // as hybrid. "REMOTE | ONSITE" means the company hires for both, so
+  // remote wins; only an explicit HYBRID flag marks a hybrid role.
+  const workMode = headerWorkMode(header);
+  const mode = workMode === "onsite" ? "on-site" : workMode;
+  if (mode && !locationRaw.toLowerCase().includes(mode)) {
+    locationRaw += locationRaw ? ` (${mode})` : mode;
+  }
+
+  const content = [...lines, link ? `Apply: ${link}` : ""]
+    .filter(Boolean)
+    .join("\n");
+
+  return {
+    source: "hackernews",
+    sourceJobId: String(comment.id),
+    title,
+    company,
+    // The comment permalink stays stable across runs; the apply link may not
+    url: `${HN_ITEM_PAGE_URL}${comment.id}`,
+    locationRaw,
+    postedAt: new Date(comment.created_at).toISOString(),
+    originalTimezone: null, // Algolia timestamps are UTC
+    content,
+    workMode,
+    rawPayload: JSON.stringify({
+      id: comment.id,
+      author: comment.author,
+      created_at: comment.created_at,
+      text: comment.text,
+      link,
+    }),
+  };
+}
+
+function headerWorkMode(header: string): WorkMode | undefined {
+  if (/\bhybrid\b/i.test(header)) return "hybrid";
+  if (/\bremote\b/i.test(header)) return "remote";
+  if (/\bon[\s-]?site\b/i.test(header)) return "onsite";
+  return undefined;
+}
+
+function extractUrl(text: string): string | undefined {
+  return text.match(/https?:\/\/[^\s)|]+/)?.[0];
+}
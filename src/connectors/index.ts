@@ -8,6 +8,16 @@ import { fetchSmartRecruitersJobs } from "./smartrecruiters";
 import { fetchBambooHRJobs } from "./bamboohr";
 import { fetchWorkdayJobs } from "./workday";
 import { fetchIcimsJobs } from "./icims";
+import { fetchRecruiteeJobs } from "./recruitee";
+import { fetchTeamtailorJobs } from "./teamtailor";
+import { fetchPersonioJobs } from "./personio";
+import { fetchTaleoJobs } from "./taleo";
+import { fetchSuccessFactorsJobs } from "./successfactors";
+import { fetchJsonLdJobs } from "./jsonld";
+import { fetchJobBankJobs } from "./jobbank";
+import { fetchPublicSectorJobs } from "./public-sector";
+import { fetchHackerNewsJobs } from "./hackernews";
+import { fetchFeedJobs } from "./feed";
 import {
   runSerpApiQueryPack,
   DEFAULT_AGGREGATOR_QUERIES,
@@ -28,7 +38,19 @@ export { fetchSmartRecruitersJobs } from "./smartrecruiters";
 export { fetchBambooHRJobs } from "./bamboohr";
 export { fetchWorkdayJobs } from "./workday";
 export { fetchIcimsJobs } from "./icims";
+export { fetchRecruiteeJobs } from "./recruitee";
+export { fetchTeamtailorJobs } from "./teamtailor";
+export { fetchPersonioJobs } from "./personio";
+export { fetchTaleoJobs } from "./taleo";
+export { fetchSuccessFactorsJobs } from "./successfactors";
+export { fetchJsonLdJobs } from "./jsonld";
+export { fetchJobBankJobs } from "./jobbank";
+export { fetchPublicSectorJobs } from "./public-sector";
+export { fetchHackerNewsJobs } from "./hackernews";
+export { fetchFeedJobs } from "./feed";
 export { runSerpApiQueryPack } from "./serpapi-jobs";
+export { fetchJobDetail } from "./detail";
+export { getCircuitState } from "./circuit-breaker";
 
 export interface RunConnectorOptions {
   includeAts?: boolean;
@@ -104,6 +126,24 @@ export async function runConnectors(
       });
     }
 
+    if (config.sources.sources.recruitee?.enabled) {
+      directApiSources.push({
+        name: "recruitee",
+        source: config.sources.sources.recruitee,
+        companies: config.companies.recruitee ?? [],
+        fetchFn: fetchRecruiteeJobs,
+      });
+    }
+
+    if (config.sources.sources.taleo?.enabled) {
+      directApiSources.push({
+        name: "taleo",
+        source: config.sources.sources.taleo,
+        companies: config.companies.taleo ?? [],
+        fetchFn: fetchTaleoJobs,
+      });
+    }
+
     for (const { name, source, companies, fetchFn } of directApiSources) {
       const discovered = includeDiscoveredBoards
         ? getActiveDiscoveredBoards(
@@ -112,7 +152,9 @@ export async function runConnectors(
               | "lever"
               | "ashby"
               | "smartrecruiters"
-              | "workday",
+              | "workday"
+              | "recruitee"
+              | "taleo",
           )
         : [];
       const discoveredSlugs = discovered
@@ -144,6 +186,9 @@ export async function runConnectors(
         items: combinedCompanies,
         fetchFn: (company) => fetchFn(company, source),
         rateLimiting,
+        circuitKey: name,
+        circuitBreaker: source.circuitBreaker,
+        getError: (r) => (r.success ? undefined : (r.error ?? "Unknown error")),
         onProgress: (completed, total) => {
           if (completed % 10 === 0 || completed === total) {
             logger.info(`  ${name}: ${completed}/${total} companies processed`);
@@ -166,7 +211,11 @@ export async function runConnectors(
         if (!slug) continue;
         const match = resultByCompany.get(slug);
         if (!match) continue;
-        updateBoardPollState(board.id, match.success, match.jobs.length);
+        updateBoardPollState(
+          board.id,
+          match.success,
+          match.notModified ? null : match.jobs.length,
+        );
       }
     }
 
@@ -207,9 +256,44 @@ export async function runConnectors(
       });
     }
 
+    if (config.sources.sources.teamtailor?.enabled) {
+      pageParserSources.push({
+        name: "teamtailor",
+        source: config.sources.sources.teamtailor,
+        companies: config.companies.teamtailor ?? [],
+        fetchFn: fetchTeamtailorJobs,
+      });
+    }
+
+    if (config.sources.sources.personio?.enabled) {
+      pageParserSources.push({
+        name: "personio",
+        source: config.sources.sources.personio,
+        companies: config.companies.personio ?? [],
+        fetchFn: fetchPersonioJobs,
+      });
+    }
+
+    if (config.sources.sources.successfactors?.enabled) {
+      pageParserSources.push({
+        name: "successfactors",
+        source: config.sources.sources.successfactors,
+        companies: config.companies.successfactors ?? [],
+        fetchFn: fetchSuccessFactorsJobs,
+      });
+    }
+
     for (const { name, source, companies, fetchFn } of pageParserSources) {
       const discovered = includeDiscoveredBoards
-        ? getActiveDiscoveredBoards(name as "workable" | "bamboohr" | "icims")
+        ? getActiveDiscoveredBoards(
+            name as
+              | "workable"
+              | "bamboohr"
+              | "icims"
+              | "teamtailor"
+              | "personio"
+              | "successfactors",
+          )
         : [];
       const discoveredSlugs = discovered
         .map((b) => b.board_slug ?? extractBoardSlug(name, b.board_url))
@@ -240,6 +324,9 @@ export async function runConnectors(
         items: combinedCompanies,
         fetchFn: (company) => fetchFn(company, source),
         rateLimiting,
+        circuitKey: name,
+        circuitBreaker: source.circuitBreaker,
+        getError: (r) => (r.success ? undefined : (r.error ?? "Unknown error")),
         onProgress: (completed, total) => {
           if (completed % 5 === 0 || completed === total) {
             logger.info(`  ${name}: ${completed}/${total} companies processed`);
@@ -261,9 +348,113 @@ export async function runConnectors(
         if (!slug) continue;
         const match = resultByCompany.get(slug);
         if (!match) continue;
-        updateBoardPollState(board.id, match.success, match.jobs.length);
+        updateBoardPollState(
+          board.id,
+          match.success,
+          match.notModified ? null : match.jobs.length,
+        );
+      }
+    }
+
+    // Sources without board discovery — polled from the config seed list only
+    const standaloneSources: Array<{
+      name: string;
+      source: SourceDefinition;
+      companies: string[];
+      fetchFn: (
+        company: string,
+        source: SourceDefinition,
+      ) => Promise<ConnectorResult>;
+    }> = [];
+
+    if (config.sources.sources.jsonld?.enabled) {
+      standaloneSources.push({
+        name: "jsonld",
+        source: config.sources.sources.jsonld,
+        companies: config.companies.jsonld ?? [],
+        fetchFn: fetchJsonLdJobs,
+      });
+    }
+
+    if (config.sources.sources.jobbank?.enabled) {
+      standaloneSources.push({
+        name: "jobbank",
+        source: config.sources.sources.jobbank,
+        companies: config.companies.jobbank ?? [],
+        fetchFn: fetchJobBankJobs,
+      });
+    }
+
+    if (config.sources.sources.publicsector?.enabled) {
+      standaloneSources.push({
+        name: "publicsector",
+        source: config.sources.sources.publicsector,
+        companies: config.companies.publicsector ?? [],
+        fetchFn: fetchPublicSectorJobs,
+      });
+    }
+
+    if (config.sources.sources.hackernews?.enabled) {
+      standaloneSources.push({
+        name: "hackernews",
+        source: config.sources.sources.hackernews,
+        companies: config.companies.hackernews ?? [],
+        fetchFn: fetchHackerNewsJobs,
+      });
+    }
+
+    // Each "feed" source is a single RSS/Atom URL named after its config key
+    for (const [name, source] of Object.entries(config.sources.sources)) {
+      if (source.type === "feed" && source.enabled) {
+        standaloneSources.push({
+          name,
+          source,
+          companies: [name],
+          fetchFn: fetchFeedJobs,
+        });
       }
     }
+
+    for (const { name, source, companies, fetchFn } of standaloneSources) {
+      if (companies.length === 0) {
+        logger.warn(`${name}: no companies in seed list — skipping`);
+        continue;
+      }
+
+      logger.info(
+        `Starting ${name} ingestion for ${companies.length} companies...`,
+      );
+
+      const rateLimiting = source.rateLimiting ?? {
+        delayBetweenRequestsMs: 500,
+        batchSize: 10,
+        batchPauseMs: 3000,
+        maxRetries: 3,
+        backoffStartMs: 5000,
+      };
+
+      const results = await batchFetch<ConnectorResult>({
+        items: companies,
+        fetchFn: (company) => fetchFn(company, source),
+        rateLimiting,
+        circuitKey: name,
+        circuitBreaker: source.circuitBreaker,
+        getError: (r) => (r.success ? undefined : (r.error ?? "Unknown error")),
+        onProgress: (completed, total) => {
+          if (completed % 5 === 0 || completed === total) {
+            logger.info(`  ${name}: ${completed}/${total} companies processed`);
+          }
+        },
+      });
+
+      allResults.push(...results);
+
+      const succeeded = results.filter((r) => r.success).length;
+      const totalJobs = results.reduce((sum, r) => sum + r.jobs.length, 0);
+      logger.info(
+        `${name} complete: ${succeeded}/${results.length} companies succeeded, ${totalJobs} jobs found`,
+      );
+    }
   }
 
   if (includeAggregators) {
@@ -324,6 +515,24 @@ function extractBoardSlug(source: string, url: string): string | null {
       const full = `${parsed.hostname}${parsed.pathname}`.replace(/\/+$/, "");
       return full || null;
     }
+    if (source === "taleo") {
+      const section = parsed.pathname.match(/\/careersection\/[^/]+/i)?.[0];
+      return section ? `${parsed.hostname}${section}` : null;
+    }
+    if (source === "successfactors") {
+      const companyId = parsed.searchParams.get("company");
+      return companyId
+        ? `${parsed.hostname}/career?company=${companyId}`
+        : parsed.hostname;
+    }
+    if (
+      source === "recruitee" ||
+      source === "teamtailor" ||
+      source === "personio"
+    ) {
+      const hostParts = parsed.hostname.split(".");
+      return hostParts.length > 0 ? hostParts[0] : null;
+    }
     return null;
   } catch {
     return null;
@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import { parseJobBankFeed } from "./jobbank";
+
+const FEED_URL = "https://www.jobbank.gc.ca/jobsearch/feed/jobSearchRSSfeed";
+
+function feed(...items: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"><channel><title>Job Bank</title>${items.join("")}</channel></rss>`;
+}
+
+function item(fields: {
+  title: string;
+  link: string;
+  description: string;
+  pubDate?: string;
+}): string {
+  return `<item>
+  <title>${fields.title}</title>
+  <link>${fields.link}</link>
+  <description><![CDATA[${fields.description}]]></description>
+  ${fields.pubDate ? `<pubDate>${fields.pubDate}</pubDate>` : ""}
+</item>`;
+}
+
+describe("parseJobBankFeed", () => {
+  test("reads employer, location and posting id from an item", () => {
+    const [job, ...rest] = parseJobBankFeed(
+      feed(
+        item({
+          title: "software developer",
+          link: "https://www.jobbank.gc.ca/jobsearch/jobposting/43210987",
+          description:
+            "Employer: Acme Labs Inc.<br>Location: Toronto (ON)<br>Salary: $45.00 hourly",
+          pubDate: "Thu, 01 Oct 2026 12:00:00 GMT",
+        }),
+      ),
+      "21232",
+      FEED_URL,
+    );
+
+    expect(rest).toHaveLength(0);
+    expect(job).toMatchObject({
+      sourceJobId: "43210987",
+      title: "software developer",
+      company: "Acme Labs Inc.",
+      locationRaw: "Toronto, ON",
+      postedAt: "2026-10-01T12:00:00.000Z",
+    });
+    expect(job?.content).toStartWith("NOC 21232");
+    expect(job?.content).toContain("Salary: $45.00 hourly");
+  });
+
+  test("turns the work setting into a mode hint", () => {
+    const [remote, hybrid] = parseJobBankFeed(
+      feed(
+        item({
+          title: "web developer",
+          link: "https://www.jobbank.gc.ca/jobsearch/jobposting/1",
+          description:
+            "Employer: A<br>Location: Ottawa (ON)<br>Work setting: Telework",
+        }),
+        item({
+          title: "web developer",
+          link: "https://www.jobbank.gc.ca/jobsearch/jobposting/2",
+          description:
+            "Employer: B<br>Location: Ottawa (ON)<br>Work setting: Hybrid",
+        }),
+      ),
+      "21234",
+      FEED_URL,
+    );
+
+    expect(remote?.locationRaw).toBe("Ottawa, ON (remote)");
+    expect(hybrid?.locationRaw).toBe("Ottawa, ON (hybrid)");
+  });
+
+  test("prefers a NOC code named in the description", () => {
+    const [job] = parseJobBankFeed(
+      feed(
+        item({
+          title: "database analyst",
+          link: "https://www.jobbank.gc.ca/jobsearch/jobposting/3",
+          description: "Employer: C<br>NOC 21223",
+        }),
+      ),
+      "21232",
+      FEED_URL,
+    );
+
+    expect(job?.content).toStartWith("NOC 21223");
+  });
+
+  test("skips items without a title or link", () => {
+    const jobs = parseJobBankFeed(
+      feed(
+        item({ title: "", link: "https://example.com/1", description: "" }),
+        item({ title: "developer", link: "", description: "" }),
+      ),
+      "21232",
+      FEED_URL,
+    );
+
+    expect(jobs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,131 @@
+import { logger } from "../logger";
+import type { ConnectorResult } from "../types";
+import type { SourceDefinition } from "../config";
+import {
+  fetchPageParserJobs,
+  loadCheerio,
+  loadCheerioXml,
+  cleanText,
+  generateJobId,
+  type ParsedJob,
+} from "./page-parser-base";
+import {
+  extractNocCode,
+  formatNoc,
+  mapTeleworkFlag,
+  appendModeHint,
+} from "./public-sector";
+
+// Government of Canada Job Bank search results as RSS. "company" is a
+// NOC 2021 code (e.g. "21232"); urlTemplate points at the search feed
+// filtered by that occupation.
+
+export async function fetchJobBankJobs(
+  noc: string,
+  sourceConfig: SourceDefinition,
+): Promise<ConnectorResult> {
+  return fetchPageParserJobs("jobbank", noc, sourceConfig, parseJobBankFeed);
+}
+
+export function parseJobBankFeed(
+  xml: string,
+  noc: string,
+  _feedUrl: string,
+): ParsedJob[] {
+  const $ = loadCheerioXml(xml);
+  const jobs: ParsedJob[] = [];
+
+  $("item").each((_i, el) => {
+    try {
+      const $item = $(el);
+
+      const title = cleanText($item.children("title").text());
+      const url = $item.children("link").text().trim();
+      if (!title || !url) {
+        return;
+      }
+
+      const descriptionHtml = $item.children("description").text();
+      const lines = descriptionLines(descriptionHtml);
+      const fields = parseDescriptionFields(lines);
+      const descriptionText = lines.join("\n");
+
+      const employer = fields.get("employer") ?? fields.get("business");
+      const sourceJobId =
+        url.match(/\/jobposting\/(\d+)/i)?.[1] ??
+        generateJobId("jobbank", employer ?? noc, title);
+
+      // Job Bank writes locations as "Toronto (ON)"
+      const location = (fields.get("location") ?? "").replace(
+        /\s*\(([A-Z]{2})\)\s*$/,
+        ", $1",
+      );
+      const workSetting = [
+        fields.get("work setting"),
+        fields.get("telework"),
+        fields.get("work location"),
+      ]
+        .filter(Boolean)
+        .join(" ");
+      const locationRaw = appendModeHint(
+        location,
+        mapTeleworkFlag(workSetting || descriptionText),
+      );
+
+      const nocCode =
+        extractNocCode(descriptionText) ?? (/^\d{5}$/.test(noc) ? noc : null);
+
+      const pubDate = $item.children("pubDate").text().trim();
+      const postedAt =
+        pubDate && !Number.isNaN(Date.parse(pubDate))
+          ? new Date(pubDate).toISOString()
+          : null;
+
+      jobs.push({
+        sourceJobId,
+        title,
+        url,
+        locationRaw,
+        postedAt,
+        content:
+          [nocCode ? formatNoc(nocCode) : "", descriptionText]
+            .filter(Boolean)
+            .join("\n") || title,
+        company: employer ?? "Job Bank",
+      });
+    } catch (error) {
+      logger.warn(`JobBank/${noc}: failed to parse feed item: ${error}`);
+    }
+  });
+
+  return jobs;
+}
+
+function descriptionLines(html: string): string[] {
+  const text = html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(?:li|p|div|tr)>/gi, "\n");
+
+  return loadCheerio(text)
+    .text()
+    .split("\n")
+    .map((line) => cleanText(line))
+    .filter(Boolean);
+}
+
+// Feed descriptions are "Label: value" lines (Employer, Location, Salary, ...)
+function parseDescriptionFields(lines: string[]): Map<string, string> {
+  const fields = new Map<string, string>();
+
+  for (const line of lines) {
+    const match = line.match(/^([A-Za-z][A-Za-z ]{1,30}?)\s*:\s*(.+)$/);
+    if (match) {
+      const key = match[1]!.toLowerCase();
+      if (!fields.has(key)) {
+        fields.set(key, match[2]!);
+      }
+    }
+  }
+
+  return fields;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import { parseJsonLdPage } from "./jsonld";
+
+const PAGE_URL = "https://careers.example.com/jobs";
+
+function page(...blocks: unknown[]): string {
+  const scripts = blocks
+    .map(
+      (block) =>
+        `<script type="application/ld+json">${JSON.stringify(block)}</script>`,
+    )
+    .join("\n");
+  return `<html><head>${scripts}</head><body></body></html>`;
+}
+
+describe("parseJsonLdPage", () => {
+  test("reads a JobPosting with organization, place and date", () => {
+    const [job, ...rest] = parseJsonLdPage(
+      page({
+        "@context": "https://schema.org",
+        "@type": "JobPosting",
+        title: "Backend Developer",
+        url: "https://careers.example.com/jobs/42",
+        identifier: { "@type": "PropertyValue", value: "REQ-42" },
+        hiringOrganization: { "@type": "Organization", name: "Acme Labs" },
+        jobLocation: {
+          "@type": "Place",
+          address: {
+            addressLocality: "Toronto",
+            addressRegion: "ON",
+            addressCountry: "CA",
+          },
+        },
+        datePosted: "2026-10-01",
+        description: "<p>Build APIs.</p>",
+      }),
+      PAGE_URL,
+      PAGE_URL,
+    );
+
+    expect(rest).toHaveLength(0);
+    expect(job).toMatchObject({
+      sourceJobId: "REQ-42",
+      title: "Backend Developer",
+      url: "https://careers.example.com/jobs/42",
+      company: "Acme Labs",
+      locationRaw: "Toronto, ON, CA",
+      postedAt: "2026-10-01T00:00:00.000Z",
+      content: "<p>Build APIs.</p>",
+    });
+  });
+
+  test("resolves a relative posting url against the page", () => {
+    const [job] = parseJsonLdPage(
+      page({ "@type": "JobPosting", title: "Developer", url: "/jobs/123" }),
+      PAGE_URL,
+      PAGE_URL,
+    );
+
+    expect(job?.url).toBe("https://careers.example.com/jobs/123");
+  });
+
+  test("gives postings without a url distinct page anchors", () => {
+    const jobs = parseJsonLdPage(
+      page([
+        { "@type": "JobPosting", title: "Frontend Developer" },
+        { "@type": "JobPosting", title: "Data Engineer" },
+      ]),
+      PAGE_URL,
+      PAGE_URL,
+    );
+
+    expect(jobs.map((job) => job.url)).toEqual([
+      `${PAGE_URL}#Frontend%20Developer`,
+      `${PAGE_URL}#Data%20Engineer`,
+    ]);
+    expect(jobs[0]?.company).toBe("careers.example.com");
+  });
+
+  test("finds postings inside @graph and ItemList wrappers", () => {
+    const jobs = parseJsonLdPage(
+      page(
+        {
+          "@graph": [
+            { "@type": "WebPage", name: "Careers" },
+            { "@type": "JobPosting", title: "Site Reliability Engineer" },
+          ],
+        },
+        {
+          "@type": "ItemList",
+          itemListElement: [
+            {
+              "@type": "ListItem",
+              item: { "@type": "JobPosting", title: "QA Developer" },
+            },
+          ],
+        },
+      ),
+      PAGE_URL,
+      PAGE_URL,
+    );
+
+    expect(jobs.map((job) => job.title)).toEqual([
+      "Site Reliability Engineer",
+      "QA Developer",
+    ]);
+  });
+
+  test("labels TELECOMMUTE postings remote with the applicant region", () => {
+    const [job] = parseJsonLdPage(
+      page({
+        "@type": "JobPosting",
+        title: "Developer",
+        jobLocationType: "TELECOMMUTE",
+        applicantLocationRequirements: { "@type": "Country", name: "Canada" },
+      }),
+      PAGE_URL,
+      PAGE_URL,
+    );
+
+    expect(job?.locationRaw).toBe("Remote Canada");
+  });
+
+  test("skips malformed blocks and keeps the rest of the page", () => {
+    const html =
+      '<script type="application/ld+json">{ not json</script>' +
+      page({ "@type": "JobPosting", title: "Developer" });
+
+    expect(parseJsonLdPage(html, PAGE_URL, PAGE_URL)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,214 @@
+import { logger } from "../logger";
+import type { ConnectorResult } from "../types";
+import type { SourceDefinition } from "../config";
+import {
+  fetchPageParserJobs,
+  loadCheerio,
+  cleanText,
+  generateJobId,
+  type ParsedJob,
+} from "./page-parser-base";
+
+// Generic extractor for career pages that embed schema.org JobPosting
+// objects in <script type="application/ld+json"> blocks.
+// "company" is the full career-page URL (urlTemplate is "{company}").
+
+type JsonLdValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonLdNode
+  | JsonLdValue[];
+
+interface JsonLdNode {
+  [key: string]: JsonLdValue;
+}
+
+export async function fetchJsonLdJobs(
+  pageUrl: string,
+  sourceConfig: SourceDefinition,
+): Promise<ConnectorResult> {
+  return fetchPageParserJobs("jsonld", pageUrl, sourceConfig, parseJsonLdPage);
+}
+
+export function parseJsonLdPage(
+  html: string,
+  pageUrl: string,
+  _url: string,
+): ParsedJob[] {
+  const $ = loadCheerio(html);
+  const postings: JsonLdNode[] = [];
+
+  $('script[type="application/ld+json"]').each((_i, el) => {
+    const raw = $(el).contents().text().trim();
+    if (!raw) return;
+
+    try {
+      collectJobPostings(JSON.parse(raw) as JsonLdValue, postings);
+    } catch (error) {
+      logger.warn(`JSON-LD/${pageUrl}: skipping malformed block: ${error}`);
+    }
+  });
+
+  const jobs: ParsedJob[] = [];
+  for (const posting of postings) {
+    const job = toParsedJob(posting, pageUrl);
+    if (job) {
+      jobs.push(job);
+    }
+  }
+
+  return jobs;
+}
+
+function collectJobPostings(value: JsonLdValue, out: JsonLdNode[]): void {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      collectJobPostings(item, out);
+    }
+    return;
+  }
+
+  if (!isNode(value)) return;
+
+  const type = value["@type"];
+  const types = Array.isArray(type) ? type : [type];
+  if (types.some((t) => t === "JobPosting")) {
+    out.push(value);
+    return;
+  }
+
+  if (value["@graph"] !== undefined) {
+    collectJobPostings(value["@graph"], out);
+  }
+  if (value.itemListElement !== undefined) {
+    collectJobPostings(value.itemListElement, out);
+  }
+  if (value.item !== undefined) {
+    collectJobPostings(value.item, out);
+  }
+}
+
+function toParsedJob(posting: JsonLdNode, pageUrl: string): ParsedJob | null {
+  const title = cleanText(asText(posting.title) ?? asText(posting.name) ?? "");
+  if (!title) return null;
+
+  const company =
+    asText(nodeField(posting.hiringOrganization, "name")) ??
+    hostnameOf(pageUrl);
+  const identifier = extractIdentifier(posting.identifier);
+  const sourceJobId =
+    identifier ?? generateJobId("jsonld", company ?? pageUrl, title);
+
+  // Multiple postings on one page often share the page URL — keep them distinct
+  const url =
+    resolveUrl(asText(posting.url), pageUrl) ??
+    `${pageUrl}#${encodeURIComponent(identifier ?? title)}`;
+
+  const locations = toArray(posting.jobLocation)
+    .map(formatPlace)
+    .filter((loc): loc is string => !!loc);
+  const applicantRegions = toArray(posting.applicantLocationRequirements)
+    .map((req) => asText(nodeField(req, "name")) ?? asText(req))
+    .filter((name): name is string => !!name);
+
+  const isRemote = toArray(posting.jobLocationType).some(
+    (t) => asText(t)?.toUpperCase() === "TELECOMMUTE",
+  );
+
+  let locationRaw = [...new Set(locations)].join("; ");
+  if (isRemote) {
+    const region = applicantRegions.join(", ");
+    const remoteLabel = region ? `Remote ${region}` : "remote";
+    locationRaw += locationRaw ? ` (${remoteLabel})` : remoteLabel;
+  }
+
+  const datePosted = asText(posting.datePosted);
+  const postedAt =
+    datePosted && !Number.isNaN(Date.parse(datePosted))
+      ? new Date(datePosted).toISOString()
+      : null;
+
+  return {
+    sourceJobId,
+    title,
+    url,
+    locationRaw,
+    postedAt,
+    content: asText(posting.description) ?? title,
+    company,
+    // Keep the full JobPosting (incl. baseSalary) for replay and later parsing
+    rawPayload: JSON.stringify({ pageUrl, ...posting }),
+  };
+}
+
+function formatPlace(place: JsonLdValue): string | null {
+  if (typeof place === "string") return cleanText(place) || null;
+
+  const address = nodeField(place, "address");
+  if (typeof address === "string") return cleanText(address) || null;
+  if (!isNode(address)) return asText(nodeField(place, "name"));
+
+  const country = nodeField(address, "addressCountry");
+  const parts = [
+    asText(address.addressLocality),
+    asText(address.addressRegion),
+    asText(country) ?? asText(nodeField(country, "name")),
+  ].filter((p): p is string => !!p);
+
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+// Fall back to the career site's host rather than the full page URL
+function hostnameOf(pageUrl: string): string | undefined {
+  try {
+    return new URL(pageUrl).hostname.replace(/^www\./, "");
+  } catch {
+    return undefined;
+  }
+}
+
+// posting.url is often relative ("/jobs/123"); resolve it against the page
+function resolveUrl(href: string | null, pageUrl: string): string | null {
+  if (!href) return null;
+  try {
+    return new URL(href, pageUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+function extractIdentifier(value: JsonLdValue | undefined): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value);
+  }
+  return asText(nodeField(value, "value"));
+}
+
+function isNode(value: JsonLdValue | undefined): value is JsonLdNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function nodeField(
+  value: JsonLdValue | undefined,
+  key: string,
+): JsonLdValue | undefined {
+  if (Array.isArray(value)) return nodeField(value[0], key);
+  return isNode(value) ? value[key] : undefined;
+}
+
+function toArray(value: JsonLdValue | undefined): JsonLdValue[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asText(value: JsonLdValue | undefined): string | null {
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : null;
+  }
+  if (typeof value === "number") return String(value);
+  return null;
+}
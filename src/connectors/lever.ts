@@ -36,8 +36,22 @@ export async function fetchLeverJobs(
     timeoutMs: sourceConfig.timeoutMs,
     maxRetries: sourceConfig.rateLimiting?.maxRetries ?? 3,
     backoffStartMs: sourceConfig.rateLimiting?.backoffStartMs ?? 5000,
+    conditional: true,
   });
 
+  if (result.notModified) {
+    logger.debug(`Lever/${company}: not modified (${result.responseTimeMs}ms)`);
+    return {
+      source: "lever",
+      company,
+      jobs: [],
+      success: true,
+      responseTimeMs: result.responseTimeMs,
+      rateLimited: result.rateLimited,
+      notModified: true,
+    };
+  }
+
   if (!result.success || !result.data) {
     return {
       source: "lever",
@@ -76,7 +90,7 @@ function parseLeverJob(job: LeverJob, company: string): RawJob {
   }
 
   // Add workplace type info to location for mode classification
-  let locationRaw = [...new Set(locationParts)].join(", ");
+  let locationRaw = [...new Set(locationParts)].join("; ");
   if (job.workplaceType && job.workplaceType !== "unspecified") {
     locationRaw += locationRaw ? ` (${job.workplaceType})` : job.workplaceType;
   }
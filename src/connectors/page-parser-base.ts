@@ -20,6 +20,8 @@ export interface ParsedJob {
   locationRaw: string;
   postedAt: string | null;
   content: string;
+  company?: string; // Overrides the board slug when the page names the employer
+  rawPayload?: string; // Defaults to the serialized ParsedJob
 }
 
 export interface PageFetchResult {
@@ -30,7 +32,7 @@ export interface PageFetchResult {
   statusCode?: number;
 }
 
-async function fetchHtml(config: PageParserConfig): Promise<PageFetchResult> {
+export async function fetchHtml(config: PageParserConfig): Promise<PageFetchResult> {
   const { url, timeoutMs, maxRetries, backoffStartMs } = config;
   let lastError = "";
   const startTime = Date.now();
@@ -130,13 +132,13 @@ export function createPageParserResult(
     source,
     sourceJobId: job.sourceJobId,
     title: job.title,
-    company,
+    company: job.company ?? company,
     url: job.url,
     locationRaw: job.locationRaw,
     postedAt: job.postedAt,
     originalTimezone: null,
     content: job.content,
-    rawPayload: JSON.stringify(job),
+    rawPayload: job.rawPayload ?? JSON.stringify(job),
   }));
 
   return {
@@ -170,6 +172,10 @@ export function loadCheerio(html: string): cheerio.CheerioAPI {
   return cheerio.load(html);
 }
 
+export function loadCheerioXml(xml: string): cheerio.CheerioAPI {
+  return cheerio.load(xml, { xml: true });
+}
+
 export function extractText($: cheerio.CheerioAPI, selector: string): string {
   return $(selector).text().trim();
 }
@@ -0,0 +1,99 @@
+import { logger } from "../logger";
+import type { ConnectorResult } from "../types";
+import type { SourceDefinition } from "../config";
+import {
+  fetchPageParserJobs,
+  loadCheerioXml,
+  cleanText,
+  generateJobId,
+  type ParsedJob,
+} from "./page-parser-base";
+
+// Personio publishes open positions as an XML feed at
+// https://{company}.jobs.personio.de/xml (<workzag-jobs><position>...).
+
+export async function fetchPersonioJobs(
+  company: string,
+  sourceConfig: SourceDefinition,
+): Promise<ConnectorResult> {
+  return fetchPageParserJobs(
+    "personio",
+    company,
+    sourceConfig,
+    parsePersonioFeed,
+  );
+}
+
+function parsePersonioFeed(
+  xml: string,
+  company: string,
+  feedUrl: string,
+): ParsedJob[] {
+  const $ = loadCheerioXml(xml);
+  const jobs: ParsedJob[] = [];
+  const origin = new URL(feedUrl).origin;
+
+  $("position").each((_i, el) => {
+    try {
+      const $position = $(el);
+
+      const title = cleanText($position.children("name").text());
+      if (!title) {
+        return;
+      }
+
+      const id = $position.children("id").text().trim();
+      const sourceJobId = id || generateJobId("personio", company, title);
+      const url = id ? `${origin}/job/${id}` : `${origin}/`;
+
+      const offices = [
+        $position.children("office").text(),
+        ...$position
+          .find("additionalOffices office")
+          .map((_j, office) => $(office).text())
+          .get(),
+      ]
+        .map((o) => cleanText(o))
+        .filter(Boolean);
+      const locationRaw = [...new Set(offices)].join("; ");
+
+      const sections: string[] = [];
+      $position.find("jobDescriptions jobDescription").each((_j, desc) => {
+        const $desc = $(desc);
+        const heading = cleanText($desc.children("name").text());
+        const body = $desc.children("value").text().trim();
+        if (body) {
+          sections.push(heading ? `<h3>${heading}</h3>\n${body}` : body);
+        }
+      });
+
+      const meta = [
+        $position.children("employmentType").text(),
+        $position.children("schedule").text(),
+        $position.children("seniority").text(),
+      ]
+        .map((m) => cleanText(m))
+        .filter(Boolean)
+        .join(" | ");
+
+      const createdAt = $position.children("createdAt").text().trim();
+      const postedAt =
+        createdAt && !Number.isNaN(Date.parse(createdAt))
+          ? new Date(createdAt).toISOString()
+          : null;
+
+      jobs.push({
+        sourceJobId,
+        title,
+        url,
+        locationRaw,
+        postedAt,
+        content: [meta, ...sections].filter(Boolean).join("\n") || title,
+      });
+    } catch (error) {
+      logger.warn(`Personio/${company}: failed to parse position: ${error}`);
+    }
+  });
+
+  return jobs;
+}
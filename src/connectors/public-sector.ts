@@ -0,0 +1,158 @@
+import { logger } from "../logger";
+import type { ConnectorResult } from "../types";
+import type { SourceDefinition } from "../config";
+import {
+  fetchPageParserJobs,
+  createPageParserError,
+  loadCheerio,
+  cleanText,
+  generateJobId,
+  type ParsedJob,
+} from "./page-parser-base";
+
+// Shared helpers for government job boards (Job Bank and provincial portals),
+// plus the provincial portal registry. "company" is a portal key such as
+// "ontario"; each portal supplies its own listing URL and parser.
+
+// NOC 2021 unit groups relevant to software roles
+export const NOC_LABELS: Record<string, string> = {
+  "20012": "Computer and information systems managers",
+  "21211": "Data scientists",
+  "21220": "Cybersecurity specialists",
+  "21221": "Business systems specialists",
+  "21222": "Information systems specialists",
+  "21223": "Database analysts and data administrators",
+  "21230": "Computer systems developers and programmers",
+  "21231": "Software engineers and designers",
+  "21232": "Software developers and programmers",
+  "21233": "Web designers",
+  "21234": "Web developers and programmers",
+  "21311": "Computer engineers (except software engineers and designers)",
+  "22220": "Computer network and web technicians",
+  "22221": "User support technicians",
+  "22222": "Information systems testing technicians",
+};
+
+export function extractNocCode(text: string): string | null {
+  const match = text.match(/\bNOC(?:\s*2021)?\s*[:#]?\s*(\d{5})\b/i);
+  return match?.[1] ?? null;
+}
+
+export function formatNoc(code: string): string {
+  const label = NOC_LABELS[code];
+  return label ? `NOC ${code} — ${label}` : `NOC ${code}`;
+}
+
+// Map government work-setting / telework wording onto the mode hints the
+// normalizer understands. Mirrors classifyMode: remote + on-site means hybrid.
+export function mapTeleworkFlag(text: string): string {
+  const lower = text.toLowerCase();
+
+  const hasHybrid = /\bhybrid\b|\bhybride\b/.test(lower);
+  const hasRemote =
+    /\btelework|\btélétravail|\bteletravail|work remotely|remote work|\bvirtual\b/.test(
+      lower,
+    );
+  const hasOnsite = /\bon[\s-]site\b|\bin[\s-]person\b|\bsur place\b/.test(
+    lower,
+  );
+
+  if (hasHybrid || (hasRemote && hasOnsite)) return "hybrid";
+  if (hasRemote) return "remote";
+  if (hasOnsite) return "on-site";
+  return "";
+}
+
+export function appendModeHint(locationRaw: string, mode: string): string {
+  if (!mode || locationRaw.toLowerCase().includes(mode)) return locationRaw;
+  return locationRaw ? `${locationRaw} (${mode})` : mode;
+}
+
+// Provincial portals
+
+interface PublicSectorPortal {
+  label: string;
+  url: string;
+  parse: (html: string, portal: PublicSectorPortal, url: string) => ParsedJob[];
+}
+
+const PUBLIC_SECTOR_PORTALS: Record<string, PublicSectorPortal> = {
+  ontario: {
+    label: "Ontario Public Service",
+    url: "https://www.gojobs.gov.on.ca/Search.aspx?Language=English",
+    parse: parseOntarioPublicService,
+  },
+};
+
+export async function fetchPublicSectorJobs(
+  portalKey: string,
+  sourceConfig: SourceDefinition,
+): Promise<ConnectorResult> {
+  const portal = PUBLIC_SECTOR_PORTALS[portalKey];
+  if (!portal) {
+    return createPageParserError(
+      "publicsector",
+      portalKey,
+      `Unknown public-sector portal "${portalKey}"`,
+      Date.now(),
+    );
+  }
+
+  return fetchPageParserJobs(
+    "publicsector",
+    portalKey,
+    { ...sourceConfig, urlTemplate: portal.url },
+    (html, _company, url) => portal.parse(html, portal, url),
+  );
+}
+
+// Ontario Public Service (gojobs.gov.on.ca) lists postings in a results table:
+// title link (…?JobID=N) | organization | location | closing date
+function parseOntarioPublicService(
+  html: string,
+  portal: PublicSectorPortal,
+  url: string,
+): ParsedJob[] {
+  const $ = loadCheerio(html);
+  const jobs: ParsedJob[] = [];
+  const seen = new Set<string>();
+
+  $('a[href*="JobID="]').each((_i, el) => {
+    try {
+      const $link = $(el);
+      const title = cleanText($link.text());
+      const href = $link.attr("href") ?? "";
+      if (!title || !href) return;
+
+      const jobUrl = new URL(href, url).toString();
+      const sourceJobId =
+        href.match(/JobID=(\d+)/i)?.[1] ??
+        generateJobId("publicsector", portal.label, title);
+      if (seen.has(sourceJobId)) return;
+      seen.add(sourceJobId);
+
+      const cells = $link
+        .closest("tr")
+        .find("td")
+        .map((_j, td) => cleanText($(td).text()))
+        .get();
+      const organization = cells[1] || portal.label;
+      const location = cells[2] ?? "";
+      const rowText = cells.join(" ");
+
+      jobs.push({
+        sourceJobId,
+        title,
+        url: jobUrl,
+        locationRaw: appendModeHint(location, mapTeleworkFlag(rowText)),
+        postedAt: null, // Only the closing date is listed
+        content: [title, organization, rowText].filter(Boolean).join("\n"),
+        company: organization,
+      });
+    } catch (error) {
+      logger.warn(`${portal.label}: failed to parse posting row: ${error}`);
+    }
+  });
+
+  return jobs;
+}
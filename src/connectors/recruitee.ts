@@ -0,0 +1,146 @@
+import { logger } from "../logger";
+import { fetchWithRetry, type FetchResult } from "./base";
+import type { RawJob, ConnectorResult } from "../types";
+import type { SourceDefinition } from "../config";
+
+interface RecruiteeOffer {
+  id: number;
+  slug: string;
+  title: string;
+  status?: string;
+  careers_url: string;
+  careers_apply_url?: string;
+  location?: string;
+  city?: string;
+  state_name?: string;
+  country?: string;
+  remote?: boolean;
+  hybrid?: boolean;
+  on_site?: boolean;
+  description?: string;
+  requirements?: string;
+  department?: string;
+  employment_type_code?: string;
+  published_at?: string; // "2026-02-14 15:30:00 UTC"
+  created_at?: string;
+}
+
+interface RecruiteeResponse {
+  offers: RecruiteeOffer[];
+}
+
+export async function fetchRecruiteeJobs(
+  company: string,
+  sourceConfig: SourceDefinition,
+): Promise<ConnectorResult> {
+  if (!sourceConfig.endpointTemplate) {
+    throw new Error(
+      `Missing endpointTemplate for Recruitee config (company: ${company})`,
+    );
+  }
+
+  const url = sourceConfig.endpointTemplate.replace("{company}", company);
+  const startTime = Date.now();
+
+  const result: FetchResult<RecruiteeResponse> = await fetchWithRetry({
+    url,
+    timeoutMs: sourceConfig.timeoutMs,
+    maxRetries: sourceConfig.rateLimiting?.maxRetries ?? 3,
+    backoffStartMs: sourceConfig.rateLimiting?.backoffStartMs ?? 5000,
+    conditional: true,
+  });
+
+  if (result.notModified) {
+    logger.debug(
+      `Recruitee/${company}: not modified (${result.responseTimeMs}ms)`,
+    );
+    return {
+      source: "recruitee",
+      company,
+      jobs: [],
+      success: true,
+      responseTimeMs: result.responseTimeMs,
+      rateLimited: result.rateLimited,
+      notModified: true,
+    };
+  }
+
+  if (!result.success || !result.data) {
+    return {
+      source: "recruitee",
+      company,
+      jobs: [],
+      success: false,
+      error: result.error,
+      responseTimeMs: Date.now() - startTime,
+      rateLimited: result.rateLimited,
+    };
+  }
+
+  const jobs: RawJob[] = (result.data.offers ?? [])
+    .filter((offer) => !offer.status || offer.status === "published")
+    .map((offer) => parseRecruiteeOffer(offer, company));
+
+  logger.debug(
+    `Recruitee/${company}: found ${jobs.length} jobs (${result.responseTimeMs}ms)`,
+  );
+
+  return {
+    source: "recruitee",
+    company,
+    jobs,
+    success: true,
+    responseTimeMs: result.responseTimeMs,
+    rateLimited: result.rateLimited,
+  };
+}
+
+function parseRecruiteeOffer(offer: RecruiteeOffer, company: string): RawJob {
+  let locationRaw =
+    offer.location?.trim() ||
+    [offer.city, offer.state_name, offer.country]
+      .filter((v): v is string => !!v && v.trim().length > 0)
+      .join(", ");
+
+  // Add workplace flags to location for mode classification
+  const workplace = offer.hybrid
+    ? "hybrid"
+    : offer.remote
+      ? "remote"
+      : offer.on_site
+        ? "on-site"
+        : "";
+  if (workplace) {
+    locationRaw += locationRaw ? ` (${workplace})` : workplace;
+  }
+
+  const content = [offer.description ?? "", offer.requirements ?? ""]
+    .filter(Boolean)
+    .join("\n");
+
+  return {
+    source: "recruitee",
+    sourceJobId: String(offer.id),
+    title: offer.title,
+    company,
+    url: offer.careers_url,
+    locationRaw,
+    postedAt: parseRecruiteeTimestamp(offer.published_at ?? offer.created_at),
+    originalTimezone: null, // Recruitee timestamps are UTC
+    content,
+    rawPayload: JSON.stringify(offer),
+  };
+}
+
+function parseRecruiteeTimestamp(value: string | undefined): string | null {
+  if (!value) return null;
+
+  // "2026-02-14 15:30:00 UTC" is not reliably parsed by Date — coerce to ISO
+  const iso = value.trim().replace(" ", "T").replace(/\s*UTC$/i, "Z");
+  const parsed = Date.parse(iso);
+  if (Number.isNaN(parsed)) {
+    const fallback = Date.parse(value);
+    return Number.isNaN(fallback) ? null : new Date(fallback).toISOString();
+  }
+  return new Date(parsed).toISOString();
+}
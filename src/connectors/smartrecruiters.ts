@@ -17,6 +17,12 @@ interface SmartRecruitersPosting {
   typeOfEmployment?: {
     label?: string;
   };
+  compensation?: {
+    min?: number;
+    max?: number;
+    currency?: string;
+    period?: string;
+  };
 }
 
 interface SmartRecruitersResponse {
@@ -35,8 +41,24 @@ export async function fetchSmartRecruitersJobs(
     timeoutMs: sourceConfig.timeoutMs,
     maxRetries: sourceConfig.rateLimiting?.maxRetries ?? 3,
     backoffStartMs: sourceConfig.rateLimiting?.backoffStartMs ?? 5000,
+    conditional: true,
   });
 
+  if (result.notModified) {
+    logger.debug(
+      `SmartRecruiters/${company}: not modified (${result.responseTimeMs}ms)`,
+    );
+    return {
+      source: "smartrecruiters",
+      company,
+      jobs: [],
+      success: true,
+      responseTimeMs: result.responseTimeMs,
+      rateLimited: result.rateLimited,
+      notModified: true,
+    };
+  }
+
   if (!result.success || !result.data) {
     return {
       source: "smartrecruiters",
@@ -0,0 +1,193 @@
+import { logger } from "../logger";
+import { sleep } from "./base";
+import {
+  fetchHtml,
+  createPageParserResult,
+  createPageParserError,
+  loadCheerio,
+  cleanText,
+  generateJobId,
+  type ParsedJob,
+} from "./page-parser-base";
+import type { ConnectorResult } from "../types";
+import type { SourceDefinition } from "../config";
+
+// SAP SuccessFactors career sites. "company" is either a Recruiting
+// Marketing (RMK) site host such as "jobs.sunlife.com", paged through
+// /search/?startrow=N, or a classic "career4.successfactors.com/career?company=ID"
+// board, whose job listing summary is a single page.
+
+const RMK_PAGE_SIZE = 25;
+const RMK_MAX_PAGES = 20;
+
+export async function fetchSuccessFactorsJobs(
+  company: string,
+  sourceConfig: SourceDefinition,
+): Promise<ConnectorResult> {
+  const startTime = Date.now();
+  const locale = sourceConfig.locale ?? "en_US";
+  const fetchOptions = {
+    source: "successfactors",
+    company,
+    timeoutMs: sourceConfig.timeoutMs,
+    maxRetries: sourceConfig.rateLimiting?.maxRetries ?? 3,
+    backoffStartMs: sourceConfig.rateLimiting?.backoffStartMs ?? 5000,
+  };
+
+  let base: URL;
+  try {
+    base = new URL(
+      /^https?:\/\//i.test(company) ? company : `https://${company}`,
+    );
+  } catch {
+    return createPageParserError(
+      "successfactors",
+      company,
+      `Invalid SuccessFactors URL: ${company}`,
+      startTime,
+    );
+  }
+
+  const classicCompanyId = base.hostname.endsWith(".successfactors.com")
+    ? base.searchParams.get("company")
+    : null;
+
+  const parsed: ParsedJob[] = [];
+
+  if (classicCompanyId) {
+    const url = `${base.origin}/career?company=${encodeURIComponent(classicCompanyId)}&career_ns=job_listing_summary&navBarLevel=JOB_SEARCH&lang=${locale}`;
+    const page = await fetchHtml({ ...fetchOptions, url });
+    if (!page.success || !page.html) {
+      return createPageParserError(
+        "successfactors",
+        company,
+        page.error ?? "Unknown error",
+        startTime,
+      );
+    }
+    parsed.push(...parseClassicListing(page.html, company, url));
+  } else {
+    for (let pageIndex = 0; pageIndex < RMK_MAX_PAGES; pageIndex++) {
+      const url = `${base.origin}/search/?q=&locale=${locale}&sortColumn=referencedate&sortDirection=desc&startrow=${pageIndex * RMK_PAGE_SIZE}`;
+      const page = await fetchHtml({ ...fetchOptions, url });
+
+      if (!page.success || !page.html) {
+        if (pageIndex === 0) {
+          return createPageParserError(
+            "successfactors",
+            company,
+            page.error ?? "Unknown error",
+            startTime,
+          );
+        }
+        logger.warn(
+          `SuccessFactors/${company}: page ${pageIndex + 1} failed (${page.error}) — keeping ${parsed.length} jobs`,
+        );
+        break;
+      }
+
+      const { jobs, total } = parseRmkSearchPage(page.html, company, url);
+      parsed.push(...jobs);
+
+      const fetched = (pageIndex + 1) * RMK_PAGE_SIZE;
+      if (
+        jobs.length < RMK_PAGE_SIZE ||
+        (total !== null && fetched >= total)
+      ) {
+        break;
+      }
+      await sleep(sourceConfig.rateLimiting?.delayBetweenRequestsMs ?? 500);
+    }
+  }
+
+  logger.debug(
+    `SuccessFactors/${company}: found ${parsed.length} jobs (${Date.now() - startTime}ms)`,
+  );
+
+  return createPageParserResult("successfactors", company, parsed, startTime);
+}
+
+// RMK search results: <tr class="data-row"> with a.jobTitle-link,
+// span.jobLocation and span.jobDate; ".paginationLabel" reads "1 – 25 of 132"
+function parseRmkSearchPage(
+  html: string,
+  company: string,
+  pageUrl: string,
+): { jobs: ParsedJob[]; total: number | null } {
+  const $ = loadCheerio(html);
+  const jobs: ParsedJob[] = [];
+
+  $("tr.data-row").each((_i, el) => {
+    try {
+      const $row = $(el);
+      const $link = $row.find("a.jobTitle-link").first();
+      const title = cleanText($link.text());
+      const href = $link.attr("href") ?? "";
+      if (!title || !href) return;
+
+      const url = new URL(href, pageUrl).toString();
+      const locationRaw = cleanText(
+        $row.find("span.jobLocation").first().text(),
+      );
+      const date = cleanText($row.find("span.jobDate").first().text());
+
+      jobs.push({
+        sourceJobId:
+          href.match(/\/(\d+)\/?$/)?.[1] ??
+          generateJobId("successfactors", company, title),
+        title,
+        url,
+        locationRaw,
+        postedAt:
+          date && !Number.isNaN(Date.parse(date))
+            ? new Date(date).toISOString()
+            : null,
+        content: cleanText($row.text()) || title,
+      });
+    } catch (error) {
+      logger.warn(`SuccessFactors/${company}: failed to parse row: ${error}`);
+    }
+  });
+
+  const totalText = $(".paginationLabel").first().text();
+  const totalMatch = totalText.match(/of\s+([\d,]+)/i);
+  const total = totalMatch?.[1]
+    ? Number.parseInt(totalMatch[1].replace(/,/g, ""), 10)
+    : null;
+
+  return { jobs, total };
+}
+
+// Classic career sites link each requisition via career_job_req_id=N
+function parseClassicListing(
+  html: string,
+  company: string,
+  pageUrl: string,
+): ParsedJob[] {
+  const $ = loadCheerio(html);
+  const jobs: ParsedJob[] = [];
+  const seen = new Set<string>();
+
+  $('a[href*="career_job_req_id="]').each((_i, el) => {
+    const $link = $(el);
+    const title = cleanText($link.text());
+    const href = $link.attr("href") ?? "";
+    const reqId = href.match(/career_job_req_id=(\d+)/)?.[1];
+    if (!title || !reqId || seen.has(reqId)) return;
+    seen.add(reqId);
+
+    const $row = $link.closest("tr, li, div");
+    jobs.push({
+      sourceJobId: reqId,
+      title,
+      url: new URL(href, pageUrl).toString(),
+      locationRaw: cleanText(
+        $row.find(".jobLocation, .location").first().text(),
+      ),
+      postedAt: null,
+      content: cleanText($row.text()) || title,
+    });
+  });
+
+  return jobs;
+}
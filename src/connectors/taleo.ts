@@ -0,0 +1,212 @@
+import { logger } from "../logger";
+import { fetchWithRetry, type FetchResult } from "./base";
+import { fetchHtml, generateJobId } from "./page-parser-base";
+import type { RawJob, ConnectorResult } from "../types";
+import type { SourceDefinition } from "../config";
+
+// Oracle Taleo Enterprise career sections. "company" is the career section
+// path, e.g. "rbc.taleo.net/careersection/2". The REST job board search needs
+// the section's numeric portal id, which is scraped from jobsearch.ftl.
+
+const TALEO_MAX_PAGES = 20;
+
+interface TaleoRequisition {
+  jobId?: string;
+  contestNo?: string;
+  column?: string[]; // [title, location(s), posted date] on default layouts
+}
+
+interface TaleoSearchResponse {
+  requisitionList?: TaleoRequisition[];
+  pagingData?: {
+    currentPageNo?: number;
+    pageSize?: number;
+    totalCount?: number;
+  };
+}
+
+interface TaleoBoard {
+  hostname: string;
+  section: string;
+}
+
+export async function fetchTaleoJobs(
+  company: string,
+  sourceConfig: SourceDefinition,
+): Promise<ConnectorResult> {
+  const startTime = Date.now();
+  const board = parseTaleoBoard(company);
+
+  if (!board) {
+    return {
+      source: "taleo",
+      company,
+      jobs: [],
+      success: false,
+      error: `Invalid Taleo career section: ${company}`,
+      responseTimeMs: Date.now() - startTime,
+      rateLimited: false,
+    };
+  }
+
+  const locale = sourceConfig.locale ?? "en";
+  const fetchOptions = {
+    timeoutMs: sourceConfig.timeoutMs,
+    maxRetries: sourceConfig.rateLimiting?.maxRetries ?? 3,
+    backoffStartMs: sourceConfig.rateLimiting?.backoffStartMs ?? 5000,
+  };
+  const baseUrl = `https://${board.hostname}/careersection`;
+
+  const page = await fetchHtml({
+    source: "taleo",
+    company,
+    url: `${baseUrl}/${board.section}/jobsearch.ftl?lang=${locale}`,
+    ...fetchOptions,
+  });
+  const portal = page.html?.match(/portal=(\d+)/)?.[1];
+
+  if (!portal) {
+    return {
+      source: "taleo",
+      company,
+      jobs: [],
+      success: false,
+      error: page.error ?? "Taleo portal id not found on career section page",
+      responseTimeMs: Date.now() - startTime,
+      rateLimited: false,
+    };
+  }
+
+  const jobs: RawJob[] = [];
+  let rateLimited = false;
+
+  for (let pageNo = 1; pageNo <= TALEO_MAX_PAGES; pageNo++) {
+    const result: FetchResult<TaleoSearchResponse> = await fetchWithRetry({
+      url: `${baseUrl}/rest/jobboard/searchjobs?lang=${locale}&portal=${portal}`,
+      body: buildSearchBody(pageNo),
+      ...fetchOptions,
+    });
+    rateLimited = rateLimited || result.rateLimited;
+
+    if (!result.success || !result.data) {
+      if (pageNo === 1) {
+        return {
+          source: "taleo",
+          company,
+          jobs: [],
+          success: false,
+          error: result.error,
+          responseTimeMs: Date.now() - startTime,
+          rateLimited,
+        };
+      }
+      logger.warn(
+        `Taleo/${company}: page ${pageNo} failed (${result.error}) — keeping ${jobs.length} jobs`,
+      );
+      break;
+    }
+
+    const requisitions = result.data.requisitionList ?? [];
+    for (const requisition of requisitions) {
+      jobs.push(parseTaleoRequisition(requisition, company, board, locale));
+    }
+
+    const pageSize = result.data.pagingData?.pageSize ?? requisitions.length;
+    const totalCount = result.data.pagingData?.totalCount ?? 0;
+    if (requisitions.length === 0 || pageNo * pageSize >= totalCount) {
+      break;
+    }
+  }
+
+  logger.debug(
+    `Taleo/${company}: found ${jobs.length} jobs (${Date.now() - startTime}ms)`,
+  );
+
+  return {
+    source: "taleo",
+    company,
+    jobs,
+    success: true,
+    responseTimeMs: Date.now() - startTime,
+    rateLimited,
+  };
+}
+
+function parseTaleoRequisition(
+  requisition: TaleoRequisition,
+  company: string,
+  board: TaleoBoard,
+  locale: string,
+): RawJob {
+  const [title = "", location = "", posted = ""] = requisition.column ?? [];
+  const cleanTitle = title.trim() || "Untitled Role";
+  const jobNumber = requisition.contestNo?.trim() || requisition.jobId?.trim();
+
+  const sourceJobId =
+    requisition.jobId?.trim() ||
+    jobNumber ||
+    generateJobId("taleo", company, cleanTitle);
+  const url = `https://${board.hostname}/careersection/${board.section}/jobdetail.ftl?job=${encodeURIComponent(jobNumber ?? sourceJobId)}&lang=${locale}`;
+
+  const postedAt =
+    posted && !Number.isNaN(Date.parse(posted))
+      ? new Date(posted).toISOString()
+      : null;
+
+  return {
+    source: "taleo",
+    sourceJobId,
+    title: cleanTitle,
+    company,
+    url,
+    locationRaw: parseTaleoLocations(location),
+    postedAt,
+    originalTimezone: null,
+    content: cleanTitle, // Search results carry no description
+    rawPayload: JSON.stringify(requisition),
+  };
+}
+
+// Multi-location requisitions arrive as a JSON-encoded array string
+function parseTaleoLocations(value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith("[")) return trimmed;
+
+  try {
+    const locations = JSON.parse(trimmed) as unknown;
+    return Array.isArray(locations)
+      ? locations.map((loc) => String(loc).trim()).join("; ")
+      : trimmed;
+  } catch {
+    return trimmed;
+  }
+}
+
+function buildSearchBody(pageNo: number) {
+  return {
+    multilineEnabled: false,
+    sortingSelection: {
+      sortBySelectionParam: "3", // Posting date
+      ascendingSortingOrder: "false",
+    },
+    fieldData: { fields: { KEYWORD: "", LOCATION: "" }, valid: true },
+    filterSelectionParam: { searchFilterSelections: [] },
+    advancedSearchFiltersSelectionParam: { searchFilterSelections: [] },
+    pageNo,
+  };
+}
+
+function parseTaleoBoard(company: string): TaleoBoard | null {
+  try {
+    const parsed = new URL(
+      /^https?:\/\//i.test(company) ? company : `https://${company}`,
+    );
+    const match = parsed.pathname.match(/\/careersection\/([^/]+)/i);
+    if (!parsed.hostname.endsWith(".taleo.net") || !match?.[1]) {
+      return null;
+    }
+    return { hostname: parsed.hostname, section: match[1] };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,111 @@
+import { logger } from "../logger";
+import type { ConnectorResult } from "../types";
+import type { SourceDefinition } from "../config";
+import {
+  fetchPageParserJobs,
+  loadCheerioXml,
+  cleanText,
+  generateJobId,
+  type ParsedJob,
+} from "./page-parser-base";
+
+// Teamtailor career sites expose every published job as an RSS feed
+// at https://{company}.teamtailor.com/jobs.rss with `tt:` extension fields.
+
+export async function fetchTeamtailorJobs(
+  company: string,
+  sourceConfig: SourceDefinition,
+): Promise<ConnectorResult> {
+  return fetchPageParserJobs(
+    "teamtailor",
+    company,
+    sourceConfig,
+    parseTeamtailorFeed,
+  );
+}
+
+function parseTeamtailorFeed(
+  xml: string,
+  company: string,
+  _feedUrl: string,
+): ParsedJob[] {
+  const $ = loadCheerioXml(xml);
+  const jobs: ParsedJob[] = [];
+
+  $("item").each((_i, el) => {
+    try {
+      const $item = $(el);
+
+      const title = cleanText($item.children("title").text());
+      const url = $item.children("link").text().trim();
+      if (!title || !url) {
+        return;
+      }
+
+      const guid = $item.children("guid").text().trim();
+      const sourceJobId =
+        extractTeamtailorJobId(url) ??
+        (guid || generateJobId("teamtailor", company, title));
+
+      const locations: string[] = [];
+      $item.find("tt\\:location").each((_j, loc) => {
+        const $loc = $(loc);
+        const parts = [
+          $loc.find("tt\\:city").text(),
+          $loc.find("tt\\:country").text(),
+        ]
+          .map((p) => cleanText(p))
+          .filter(Boolean);
+        if (parts.length > 0) {
+          locations.push(parts.join(", "));
+        }
+      });
+
+      let locationRaw = [...new Set(locations)].join("; ");
+
+      // Add remote status to location for mode classification
+      const remoteStatus = $item.children("remoteStatus").text().trim();
+      const mode = mapRemoteStatus(remoteStatus);
+      if (mode) {
+        locationRaw += locationRaw ? ` (${mode})` : mode;
+      }
+
+      const pubDate = $item.children("pubDate").text().trim();
+      const postedAt =
+        pubDate && !Number.isNaN(Date.parse(pubDate))
+          ? new Date(pubDate).toISOString()
+          : null;
+
+      jobs.push({
+        sourceJobId,
+        title,
+        url,
+        locationRaw,
+        postedAt,
+        content: $item.children("description").text().trim() || title,
+      });
+    } catch (error) {
+      logger.warn(`Teamtailor/${company}: failed to parse feed item: ${error}`);
+    }
+  });
+
+  return jobs;
+}
+
+function mapRemoteStatus(status: string): string {
+  switch (status.toLowerCase()) {
+    case "fully":
+      return "remote";
+    case "hybrid":
+      return "hybrid";
+    case "none":
+      return "on-site";
+    default:
+      return "";
+  }
+}
+
+function extractTeamtailorJobId(url: string): string | null {
+  const idMatch = url.match(/\/jobs\/(\d+)/i);
+  return idMatch?.[1] ?? null;
+}
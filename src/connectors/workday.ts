@@ -64,7 +64,7 @@ export async function fetchWorkdayJobs(
 
     const postings = result.data.jobPostings ?? [];
     const jobs: RawJob[] = postings.map((posting) =>
-      parseWorkdayPosting(posting, company, base.hostname),
+      parseWorkdayPosting(posting, company, base.hostname, url),
     );
 
     logger.debug(
@@ -96,6 +96,7 @@ function parseWorkdayPosting(
   posting: WorkdayPosting,
   company: string,
   hostname: string,
+  apiUrl: string,
 ): RawJob {
   const title = posting.title?.trim() || "Untitled Role";
   const externalPath = posting.externalPath ?? "";
@@ -123,6 +124,10 @@ function parseWorkdayPosting(
     originalTimezone: null,
     content,
     rawPayload: JSON.stringify(posting),
+    // .../wday/cxs/{tenant}/{site}/jobs → .../wday/cxs/{tenant}/{site}/job/...
+    detailUrl: externalPath
+      ? `${apiUrl.replace(/\/jobs$/, "")}${externalPath}`
+      : undefined,
   };
 }
 
@@ -6,7 +6,8 @@ import { runMigrations } from "./migrations";
 import { logger } from "../logger";
 
 const DATA_DIR = join(import.meta.dir, "../../data");
-const DB_PATH = join(DATA_DIR, "jobsearch.db");
+// Tests set DATABASE_PATH=":memory:" (see bunfig.toml)
+const DB_PATH = process.env.DATABASE_PATH ?? join(DATA_DIR, "jobsearch.db");
 
 // Ensure data directory exists
 if (!existsSync(DATA_DIR)) {
@@ -96,11 +97,19 @@ export function getDatabaseStats(): Record<string, number> {
     "connector_retry_queue",
     "source_metrics",
     "connector_checkpoints",
+    "http_validators",
+    "circuit_breakers",
+    "job_skills",
+    "job_locations",
+    "companies",
+    "company_aliases",
+    "preference_models",
     "schema_fingerprints",
     "cse_key_usage",
     "run_log",
     "discovered_boards",
     "board_poll_state",
+    "job_detail_cache",
     "_migrations",
   ];
 
@@ -72,6 +72,239 @@ const MIGRATIONS: Migration[] = [
         ON jobs_canonical(content_fingerprint);
     `,
   },
+  {
+    id: "0005_job_detail_cache",
+    description: "Cache second-stage job description fetches by URL hash",
+    sql: `
+      CREATE TABLE IF NOT EXISTS job_detail_cache (
+        url_hash TEXT PRIMARY KEY,
+        source TEXT NOT NULL,
+        content TEXT,
+        fetched_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `,
+  },
+  {
+    id: "0006_http_validators",
+    description: "Store ETag/Last-Modified per URL for conditional requests",
+    sql: `
+      CREATE TABLE IF NOT EXISTS http_validators (
+        url TEXT PRIMARY KEY,
+        etag TEXT,
+        last_modified TEXT,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `,
+  },
+  {
+    id: "0007_circuit_breakers",
+    description: "Persist per-platform circuit breaker state across runs",
+    sql: `
+      CREATE TABLE IF NOT EXISTS circuit_breakers (
+        key TEXT PRIMARY KEY,
+        state TEXT NOT NULL DEFAULT 'closed'
+          CHECK(state IN ('closed', 'open', 'half_open')),
+        failure_count INTEGER NOT NULL DEFAULT 0,
+        window_started_at TEXT,
+        opened_at TEXT,
+        last_error TEXT,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `,
+  },
+  {
+    id: "0008_job_salary",
+    description: "Parsed salary range and salary score on canonical jobs",
+    sql: `
+      ALTER TABLE jobs_canonical ADD COLUMN salary_min REAL;
+      ALTER TABLE jobs_canonical ADD COLUMN salary_max REAL;
+      ALTER TABLE jobs_canonical ADD COLUMN salary_currency TEXT;
+      ALTER TABLE jobs_canonical ADD COLUMN salary_period TEXT;
+      ALTER TABLE jobs_canonical ADD COLUMN score_salary INTEGER DEFAULT 0;
+    `,
+  },
+  {
+    id: "0009_job_seniority",
+    description: "Seniority level, required experience and seniority score",
+    sql: `
+      ALTER TABLE jobs_canonical ADD COLUMN seniority TEXT;
+      ALTER TABLE jobs_canonical ADD COLUMN experience_years INTEGER;
+      ALTER TABLE jobs_canonical ADD COLUMN score_seniority INTEGER DEFAULT 0;
+    `,
+  },
+  {
+    id: "0010_job_language_requirement",
+    description: "French / bilingual language requirement on canonical jobs",
+    sql: `
+      ALTER TABLE jobs_canonical
+        ADD COLUMN language_requirement TEXT DEFAULT 'none';
+    `,
+  },
+  {
+    id: "0011_job_work_authorization",
+    description: "Work authorization / sponsorship class and its score",
+    sql: `
+      ALTER TABLE jobs_canonical
+        ADD COLUMN work_authorization TEXT DEFAULT 'unknown';
+      ALTER TABLE jobs_canonical
+        ADD COLUMN score_work_authorization INTEGER DEFAULT 0;
+
+      CREATE INDEX IF NOT EXISTS idx_canonical_work_authorization
+        ON jobs_canonical(work_authorization);
+    `,
+  },
+  {
+    id: "0012_job_skills",
+    description: "Skill tags extracted from each canonical job",
+    sql: `
+      CREATE TABLE IF NOT EXISTS job_skills (
+        canonical_job_id INTEGER NOT NULL,
+        skill TEXT NOT NULL,
+        category TEXT NOT NULL,
+        PRIMARY KEY (canonical_job_id, skill),
+        FOREIGN KEY (canonical_job_id) REFERENCES jobs_canonical(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_job_skills_skill
+        ON job_skills(skill COLLATE NOCASE);
+    `,
+  },
+  {
+    id: "0013_job_locations",
+    description: "Every parsed location of a multi-location posting",
+    sql: `
+      CREATE TABLE IF NOT EXISTS job_locations (
+        canonical_job_id INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        location_raw TEXT NOT NULL,
+        city TEXT,
+        province TEXT,
+        tier TEXT,
+        points INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (canonical_job_id, position),
+        FOREIGN KEY (canonical_job_id) REFERENCES jobs_canonical(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_job_locations_city
+        ON job_locations(city COLLATE NOCASE);
+      CREATE INDEX IF NOT EXISTS idx_job_locations_tier
+        ON job_locations(tier);
+
+      -- Existing jobs keep their single best location until replayed
+      INSERT OR IGNORE INTO job_locations
+        (canonical_job_id, position, location_raw, city, province, tier, points)
+      SELECT id, 0, COALESCE(location_raw, ''), city, province, location_tier,
+             COALESCE(score_location, 0)
+      FROM jobs_canonical
+      WHERE COALESCE(location_raw, '') != '' OR city IS NOT NULL;
+    `,
+  },
+  {
+    id: "0014_location_codes",
+    description: "Country/region codes and remote-eligibility region",
+    sql: `
+      ALTER TABLE jobs_canonical ADD COLUMN remote_region TEXT;
+      ALTER TABLE job_locations ADD COLUMN country TEXT;
+      ALTER TABLE job_locations ADD COLUMN remote_region TEXT;
+
+      UPDATE jobs_canonical SET country = 'CA' WHERE country = 'Canada';
+      UPDATE jobs_canonical
+        SET province = CASE province
+          WHEN 'Ontario' THEN 'ON'
+          WHEN 'British Columbia' THEN 'BC'
+          ELSE province
+        END;
+      UPDATE job_locations
+        SET province = CASE province
+          WHEN 'Ontario' THEN 'ON'
+          WHEN 'British Columbia' THEN 'BC'
+          ELSE province
+        END;
+      UPDATE job_locations SET country = 'CA' WHERE province IN ('ON', 'BC');
+    `,
+  },
+  {
+    id: "0015_location_distance",
+    description: "Distance from the scoring home point for each location",
+    sql: `
+      ALTER TABLE jobs_canonical ADD COLUMN distance_km REAL;
+      ALTER TABLE job_locations ADD COLUMN distance_km REAL;
+    `,
+  },
+  {
+    id: "0016_title_rule",
+    description: "Title rule that decided each job's bucket",
+    sql: `
+      ALTER TABLE jobs_canonical ADD COLUMN title_rule TEXT;
+    `,
+  },
+  {
+    id: "0017_company_registry",
+    description: "Canonical company ids and their aliases",
+    sql: `
+      CREATE TABLE IF NOT EXISTS companies (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS company_aliases (
+        alias TEXT PRIMARY KEY,
+        company_id TEXT NOT NULL,
+        origin TEXT NOT NULL DEFAULT 'auto'
+          CHECK (origin IN ('auto', 'config', 'cli')),
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (company_id) REFERENCES companies(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_company_aliases_company
+        ON company_aliases(company_id);
+
+      ALTER TABLE jobs_canonical ADD COLUMN company_id TEXT;
+      CREATE INDEX IF NOT EXISTS idx_jobs_canonical_company_id
+        ON jobs_canonical(company_id);
+    `,
+  },
+  {
+    id: "0018_score_breakdown",
+    description: "Per-factor score breakdown as JSON",
+    sql: `
+      ALTER TABLE jobs_canonical ADD COLUMN score_breakdown TEXT;
+    `,
+  },
+  {
+    id: "0019_score_pre_ai",
+    description: "Rule-based score and band before the AI fit blend",
+    sql: `
+      ALTER TABLE jobs_canonical ADD COLUMN score_pre_ai INTEGER;
+      ALTER TABLE jobs_canonical ADD COLUMN score_band_pre_ai TEXT;
+      UPDATE jobs_canonical
+        SET score_pre_ai = score, score_band_pre_ai = score_band;
+    `,
+  },
+  {
+    id: "0020_preference_models",
+    description: "Preference models learned from applied/dismissed jobs",
+    sql: `
+      CREATE TABLE IF NOT EXISTS preference_models (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        trained_at TEXT NOT NULL DEFAULT (datetime('now')),
+        samples INTEGER NOT NULL,
+        positives INTEGER NOT NULL,
+        bias REAL NOT NULL,
+        weights_json TEXT NOT NULL,
+        accuracy REAL NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 0
+      );
+    `,
+  },
+  {
+    id: "0021_rejected_reason",
+    description: "Why a stored job was rejected (e.g. a blocked company)",
+    sql: `
+      ALTER TABLE jobs_canonical ADD COLUMN rejected_reason TEXT;
+    `,
+  },
 ];
 
 function ensureMigrationTable(db: Database): void {
@@ -8,6 +8,14 @@ import type {
   WorkMode,
   TimestampConfidence,
   JobStatus,
+  WorkAuthorization,
+  JobSkill,
+  JobLocation,
+  ScoreFactorResult,
+  ScoreResult,
+  SalaryPeriod,
+  SeniorityLevel,
+  LanguageRequirement,
 } from "../types";
 
 // Run Log
@@ -80,7 +88,12 @@ export function insertCanonicalJob(
       score_band, posted_at, posted_at_confidence, original_timezone,
       first_seen_at, is_reposted, original_post_date,
       title_bucket, status, is_backfill, raw_job_id,
-      url_hash, content_fingerprint
+      url_hash, content_fingerprint,
+      salary_min, salary_max, salary_currency, salary_period, score_salary,
+      seniority, experience_years, score_seniority, language_requirement,
+      work_authorization, score_work_authorization, remote_region, distance_km,
+      title_rule, company_id, score_breakdown, score_pre_ai,
+      score_band_pre_ai
     ) VALUES (
       ?, ?, ?, ?, ?,
       ?, ?, ?, ?, ?,
@@ -88,7 +101,12 @@ export function insertCanonicalJob(
       ?, ?, ?, ?,
       ?, ?, ?,
       ?, ?, ?, ?,
-      ?, ?
+      ?, ?,
+      ?, ?, ?, ?, ?,
+      ?, ?, ?, ?,
+      ?, ?, ?, ?,
+      ?, ?, ?, ?,
+      ?
     )`,
     [
       job.title,
@@ -119,6 +137,24 @@ export function insertCanonicalJob(
       rawJobId,
       job.urlHash,
       job.contentFingerprint,
+      job.salaryMin,
+      job.salaryMax,
+      job.salaryCurrency,
+      job.salaryPeriod,
+      job.scoreSalary,
+      job.seniority,
+      job.experienceYears,
+      job.scoreSeniority,
+      job.languageRequirement,
+      job.workAuthorization,
+      job.scoreWorkAuthorization,
+      job.remoteRegion,
+      job.distanceKm,
+      job.titleRule,
+      job.companyId,
+      JSON.stringify(job.scoreBreakdown),
+      job.score,
+      job.scoreBand,
     ],
   );
   return Number(result.lastInsertRowid);
@@ -167,7 +203,14 @@ interface CanonicalJobRow {
   posted_at: string | null;
   first_seen_at: string;
   title_bucket: string;
+  title_rule: string | null;
   status: string;
+  language_requirement: string | null;
+  work_authorization: string | null;
+  distance_km: number | null;
+  score_pre_ai: number | null; // Rule-based score before the AI fit blend
+  score_band_pre_ai: string | null;
+  rejected_reason: string | null;
 }
 
 export function getJobsByScore(
@@ -175,7 +218,10 @@ export function getJobsByScore(
     minScore?: number;
     maxScore?: number;
     tiers?: string[];
+    city?: string;
     titleBucket?: TitleBucket;
+    workAuthorization?: WorkAuthorization[];
+    skills?: string[]; // Jobs tagged with every listed skill
     status?: JobStatus;
     limit?: number;
     offset?: number;
@@ -202,10 +248,26 @@ export function getJobsByScore(
     params.push(options.maxScore);
   }
 
+  // Location filters match any of a multi-location posting's locations
   if (options.tiers && options.tiers.length > 0) {
     const placeholders = options.tiers.map(() => "?").join(", ");
-    conditions.push(`location_tier IN (${placeholders})`);
-    params.push(...options.tiers);
+    conditions.push(
+      `(location_tier IN (${placeholders}) OR id IN (
+        SELECT canonical_job_id FROM job_locations
+        WHERE tier IN (${placeholders})
+      ))`,
+    );
+    params.push(...options.tiers, ...options.tiers);
+  }
+
+  if (options.city) {
+    conditions.push(
+      `(city = ? COLLATE NOCASE OR id IN (
+        SELECT canonical_job_id FROM job_locations
+        WHERE city = ? COLLATE NOCASE OR location_raw LIKE ?
+      ))`,
+    );
+    params.push(options.city, options.city, `%${options.city}%`);
   }
 
   if (options.titleBucket) {
@@ -213,6 +275,25 @@ export function getJobsByScore(
     params.push(options.titleBucket);
   }
 
+  if (options.workAuthorization && options.workAuthorization.length > 0) {
+    const placeholders = options.workAuthorization.map(() => "?").join(", ");
+    conditions.push(`work_authorization IN (${placeholders})`);
+    params.push(...options.workAuthorization);
+  }
+
+  if (options.skills && options.skills.length > 0) {
+    const placeholders = options.skills.map(() => "?").join(", ");
+    conditions.push(
+      `id IN (
+        SELECT canonical_job_id FROM job_skills
+        WHERE skill COLLATE NOCASE IN (${placeholders})
+        GROUP BY canonical_job_id
+        HAVING COUNT(DISTINCT skill) = ?
+      )`,
+    );
+    params.push(...options.skills, options.skills.length);
+  }
+
   if (options.sinceDate) {
     conditions.push("first_seen_at >= ?");
     params.push(options.sinceDate);
@@ -227,7 +308,9 @@ export function getJobsByScore(
     .query<CanonicalJobRow, (string | number)[]>(
       `SELECT id, title, company, source, url, city, location_tier,
               work_mode, score, score_freshness, score_location, score_mode,
-              score_band, posted_at, first_seen_at, title_bucket, status
+              score_band, posted_at, first_seen_at, title_bucket, title_rule,
+              status, language_requirement, work_authorization, distance_km,
+              score_pre_ai, score_band_pre_ai, rejected_reason
        FROM jobs_canonical
        ${whereClause}
        ORDER BY score DESC, first_seen_at DESC
@@ -241,29 +324,141 @@ export function getJobById(id: number): CanonicalJobRow | null {
     .query<CanonicalJobRow, [number]>(
       `SELECT id, title, company, source, url, city, location_tier,
               work_mode, score, score_freshness, score_location, score_mode,
-              score_band, posted_at, first_seen_at, title_bucket, status
+              score_band, posted_at, first_seen_at, title_bucket, title_rule,
+              status, language_requirement, work_authorization, distance_km,
+              score_pre_ai, score_band_pre_ai, rejected_reason
        FROM jobs_canonical WHERE id = ?`,
     )
     .get(id);
 }
 
-export function updateJobScore(
+// Final score after blending in the AI fit; score_pre_ai keeps the rule score
+export function updateBlendedScore(
   jobId: number,
   score: number,
-  scoreFreshness: number,
-  scoreLocation: number,
-  scoreMode: number,
   scoreBand: ScoreBandKey,
+  breakdown: ScoreFactorResult[],
 ): void {
   db.run(
     `UPDATE jobs_canonical SET
-      score = ?, score_freshness = ?, score_location = ?,
-      score_mode = ?, score_band = ?, updated_at = datetime('now')
+      score = ?, score_band = ?, score_breakdown = ?,
+      updated_at = datetime('now')
     WHERE id = ?`,
-    [score, scoreFreshness, scoreLocation, scoreMode, scoreBand, jobId],
+    [score, scoreBand, JSON.stringify(breakdown), jobId],
   );
 }
 
+export function getScoreBreakdown(jobId: number): ScoreFactorResult[] {
+  const row = db
+    .query<{ score_breakdown: string | null }, [number]>(
+      `SELECT score_breakdown FROM jobs_canonical WHERE id = ?`,
+    )
+    .get(jobId);
+  return row?.score_breakdown
+    ? (JSON.parse(row.score_breakdown) as ScoreFactorResult[])
+    : [];
+}
+
+// Rule-based factors from `preAi`; score, band and breakdown from `final`,
+// which differs from preAi once the AI fit has been blended in
+export function updateJobScore(
+  jobId: number,
+  preAi: ScoreResult,
+  final: Pick<ScoreResult, "total" | "band" | "breakdown">,
+): void {
+  db.run(
+    `UPDATE jobs_canonical SET
+      score = ?, score_band = ?, score_breakdown = ?,
+      score_pre_ai = ?, score_band_pre_ai = ?,
+      score_freshness = ?, score_location = ?, score_mode = ?,
+      score_salary = ?, score_seniority = ?, score_work_authorization = ?,
+      updated_at = datetime('now')
+    WHERE id = ?`,
+    [
+      final.total,
+      final.band,
+      JSON.stringify(final.breakdown),
+      preAi.total,
+      preAi.band,
+      preAi.freshness,
+      preAi.location,
+      preAi.mode,
+      preAi.salary,
+      preAi.seniority,
+      preAi.workAuthorization,
+      jobId,
+    ],
+  );
+}
+
+// Re-scoring
+
+// Every stored field the scoring factors read, plus the latest AI fit score
+export interface RescoreJobRow {
+  id: number;
+  title: string;
+  company: string;
+  company_id: string | null;
+  source: string;
+  source_job_id: string;
+  url: string;
+  city: string | null;
+  province: string | null;
+  country: string | null;
+  location_raw: string;
+  location_tier: string | null;
+  remote_region: string | null;
+  distance_km: number | null;
+  work_mode: WorkMode;
+  score: number;
+  score_band: ScoreBandKey;
+  score_breakdown: string | null;
+  posted_at: string | null;
+  posted_at_confidence: TimestampConfidence;
+  original_timezone: string | null;
+  first_seen_at: string;
+  is_reposted: number;
+  original_post_date: string | null;
+  title_bucket: TitleBucket;
+  title_rule: string | null;
+  status: JobStatus;
+  is_backfill: number;
+  url_hash: string;
+  content_fingerprint: string | null;
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  salary_period: SalaryPeriod | null;
+  seniority: SeniorityLevel | null;
+  experience_years: number | null;
+  language_requirement: LanguageRequirement | null;
+  work_authorization: WorkAuthorization | null;
+  fit_score: number | null;
+}
+
+export function getJobsForRescore(): RescoreJobRow[] {
+  return db
+    .query<RescoreJobRow, []>(
+      `SELECT jc.id, jc.title, jc.company, jc.company_id, jc.source,
+              jc.source_job_id, jc.url, jc.city, jc.province, jc.country,
+              jc.location_raw, jc.location_tier, jc.remote_region,
+              jc.distance_km, jc.work_mode, jc.score, jc.score_band,
+              jc.score_breakdown, jc.posted_at, jc.posted_at_confidence,
+              jc.original_timezone, jc.first_seen_at, jc.is_reposted,
+              jc.original_post_date, jc.title_bucket, jc.title_rule,
+              jc.status, jc.is_backfill, jc.url_hash, jc.content_fingerprint,
+              jc.salary_min, jc.salary_max, jc.salary_currency,
+              jc.salary_period, jc.seniority, jc.experience_years,
+              jc.language_requirement, jc.work_authorization,
+              jfa.fit_score
+       FROM jobs_canonical jc
+       LEFT JOIN job_fit_analysis jfa ON jfa.canonical_job_id = jc.id
+       WHERE jc.status = 'active'
+       ORDER BY jc.id`,
+    )
+    .all();
+}
+
 // Applications
 
 export function markJobApplied(jobId: number): void {
@@ -322,6 +517,25 @@ export function markJobDismissed(jobId: number): void {
   );
 }
 
+// Stored but kept out of alerts, digests and re-scoring
+export function markJobRejected(jobId: number, reason: string): void {
+  db.run(
+    `UPDATE jobs_canonical
+     SET status = 'rejected', rejected_reason = ?, updated_at = datetime('now')
+     WHERE id = ?`,
+    [reason, jobId],
+  );
+}
+
+export function rejectCompanyJobs(companyId: string, reason: string): number {
+  return db.run(
+    `UPDATE jobs_canonical
+     SET status = 'rejected', rejected_reason = ?, updated_at = datetime('now')
+     WHERE company_id = ? AND status = 'active'`,
+    [reason, companyId],
+  ).changes;
+}
+
 // Duplicates
 
 export function insertDuplicateLink(
@@ -495,10 +709,11 @@ export function getConnectorCheckpoint(
     .get(source);
 }
 
+// jobCount null (HTTP 304) keeps the previous last_job_count
 export function updateConnectorCheckpoint(
   source: string,
   success: boolean,
-  jobCount: number,
+  jobCount: number | null,
 ): void {
   if (success) {
     db.run(
@@ -506,7 +721,7 @@ export function updateConnectorCheckpoint(
        VALUES (?, datetime('now'), ?, 0, datetime('now'))
        ON CONFLICT(source) DO UPDATE SET
          last_success_at = datetime('now'),
-         last_job_count = excluded.last_job_count,
+         last_job_count = COALESCE(excluded.last_job_count, connector_checkpoints.last_job_count),
          error_count_consecutive = 0,
          updated_at = datetime('now')`,
       [source, jobCount],
@@ -523,6 +738,455 @@ export function updateConnectorCheckpoint(
   }
 }
 
+// HTTP Validators (conditional requests)
+
+export function getHttpValidators(
+  url: string,
+): { etag: string | null; last_modified: string | null } | null {
+  return db
+    .query<{ etag: string | null; last_modified: string | null }, [string]>(
+      `SELECT etag, last_modified FROM http_validators WHERE url = ?`,
+    )
+    .get(url);
+}
+
+export function saveHttpValidators(
+  url: string,
+  etag: string | null,
+  lastModified: string | null,
+): void {
+  db.run(
+    `INSERT INTO http_validators (url, etag, last_modified, updated_at)
+     VALUES (?, ?, ?, datetime('now'))
+     ON CONFLICT(url) DO UPDATE SET
+       etag = excluded.etag,
+       last_modified = excluded.last_modified,
+       updated_at = datetime('now')`,
+    [url, etag, lastModified],
+  );
+}
+
+// Circuit Breakers
+
+export interface CircuitBreakerRow {
+  key: string;
+  state: "closed" | "open" | "half_open";
+  failure_count: number;
+  window_started_at: string | null;
+  opened_at: string | null;
+  last_error: string | null;
+  updated_at: string;
+}
+
+export function getCircuitBreaker(key: string): CircuitBreakerRow | null {
+  return db
+    .query<CircuitBreakerRow, [string]>(
+      `SELECT * FROM circuit_breakers WHERE key = ?`,
+    )
+    .get(key);
+}
+
+export function getCircuitBreakers(): CircuitBreakerRow[] {
+  return db
+    .query<CircuitBreakerRow, []>(
+      `SELECT * FROM circuit_breakers ORDER BY key`,
+    )
+    .all();
+}
+
+export function saveCircuitBreaker(
+  row: Omit<CircuitBreakerRow, "updated_at">,
+): void {
+  db.run(
+    `INSERT INTO circuit_breakers (key, state, failure_count, window_started_at, opened_at, last_error, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+     ON CONFLICT(key) DO UPDATE SET
+       state = excluded.state,
+       failure_count = excluded.failure_count,
+       window_started_at = excluded.window_started_at,
+       opened_at = excluded.opened_at,
+       last_error = excluded.last_error,
+       updated_at = datetime('now')`,
+    [
+      row.key,
+      row.state,
+      row.failure_count,
+      row.window_started_at,
+      row.opened_at,
+      row.last_error,
+    ],
+  );
+}
+
+// Job Skills
+
+export function insertJobSkills(jobId: number, skills: JobSkill[]): void {
+  for (const skill of skills) {
+    db.run(
+      `INSERT OR IGNORE INTO job_skills (canonical_job_id, skill, category)
+       VALUES (?, ?, ?)`,
+      [jobId, skill.name, skill.category],
+    );
+  }
+}
+
+export function insertJobLocations(
+  jobId: number,
+  locations: JobLocation[],
+): void {
+  locations.forEach((location, position) => {
+    db.run(
+      `INSERT OR IGNORE INTO job_locations (
+         canonical_job_id, position, location_raw, city, province, country,
+         tier, points, remote_region, distance_km
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        jobId,
+        position,
+        location.label,
+        location.city,
+        location.province,
+        location.country,
+        location.tier,
+        location.points,
+        location.remoteRegion,
+        location.distanceKm,
+      ],
+    );
+  });
+}
+
+export interface JobLocationRow {
+  location_raw: string;
+  city: string | null;
+  province: string | null;
+  country: string | null;
+  tier: string | null;
+  points: number;
+  remote_region: string | null;
+  distance_km: number | null;
+}
+
+export function getJobLocations(jobId: number): JobLocationRow[] {
+  return db
+    .query<JobLocationRow, [number]>(
+      `SELECT location_raw, city, province, country, tier, points,
+              remote_region, distance_km
+       FROM job_locations WHERE canonical_job_id = ?
+       ORDER BY position`,
+    )
+    .all(jobId);
+}
+
+export function getJobSkills(jobId: number): string[] {
+  return db
+    .query<{ skill: string }, [number]>(
+      `SELECT skill FROM job_skills WHERE canonical_job_id = ? ORDER BY skill`,
+    )
+    .all(jobId)
+    .map((row) => row.skill);
+}
+
+// Company Registry
+
+export interface CompanyRow {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface CompanyAliasRow {
+  alias: string;
+  company_id: string;
+  origin: "auto" | "config" | "cli";
+}
+
+export function getCompanyAlias(alias: string): CompanyAliasRow | null {
+  return db
+    .query<CompanyAliasRow, [string]>(
+      `SELECT alias, company_id, origin FROM company_aliases WHERE alias = ?`,
+    )
+    .get(alias);
+}
+
+export function getCompany(id: string): CompanyRow | null {
+  return db
+    .query<CompanyRow, [string]>(
+      `SELECT id, name, created_at FROM companies WHERE id = ?`,
+    )
+    .get(id);
+}
+
+// "auto" aliases never replace a config or CLI mapping
+export function upsertCompany(
+  id: string,
+  name: string,
+  origin: CompanyAliasRow["origin"],
+): void {
+  db.run(
+    origin === "auto"
+      ? `INSERT OR IGNORE INTO companies (id, name) VALUES (?, ?)`
+      : `INSERT INTO companies (id, name) VALUES (?, ?)
+         ON CONFLICT(id) DO UPDATE SET name = excluded.name`,
+    [id, name],
+  );
+}
+
+export function upsertCompanyAlias(
+  alias: string,
+  companyId: string,
+  origin: CompanyAliasRow["origin"],
+): void {
+  db.run(
+    origin === "auto"
+      ? `INSERT OR IGNORE INTO company_aliases (alias, company_id, origin)
+         VALUES (?, ?, ?)`
+      : `INSERT INTO company_aliases (alias, company_id, origin)
+         VALUES (?, ?, ?)
+         ON CONFLICT(alias) DO UPDATE SET
+           company_id = excluded.company_id,
+           origin = excluded.origin`,
+    [alias, companyId, origin],
+  );
+}
+
+// Moves every alias and job of `fromId` onto `intoId` and drops `fromId`
+export function mergeCompanies(fromId: string, intoId: string): number {
+  db.exec("BEGIN");
+  try {
+    db.run(
+      `UPDATE company_aliases SET company_id = ?, origin = 'cli'
+       WHERE company_id = ?`,
+      [intoId, fromId],
+    );
+    db.run(
+      `INSERT INTO company_aliases (alias, company_id, origin)
+       VALUES (?, ?, 'cli')
+       ON CONFLICT(alias) DO UPDATE SET
+         company_id = excluded.company_id,
+         origin = excluded.origin`,
+      [fromId, intoId],
+    );
+    const result = db.run(
+      `UPDATE jobs_canonical SET company_id = ? WHERE company_id = ?`,
+      [intoId, fromId],
+    );
+    db.run(`DELETE FROM companies WHERE id = ?`, [fromId]);
+    db.exec("COMMIT");
+    return result.changes;
+  } catch (error) {
+    db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+// Points jobs whose company id has since become an alias of another company
+export function repointAliasedCompanyJobs(): number {
+  return db.run(
+    `UPDATE jobs_canonical
+     SET company_id = (
+       SELECT a.company_id FROM company_aliases a
+       WHERE a.alias = jobs_canonical.company_id
+     )
+     WHERE company_id IN (
+       SELECT alias FROM company_aliases WHERE alias != company_id
+     )`,
+  ).changes;
+}
+
+// Companies left with no alias after config or CLI remapped them
+export function deleteOrphanCompanies(): number {
+  return db.run(
+    `DELETE FROM companies
+     WHERE id NOT IN (SELECT company_id FROM company_aliases)`,
+  ).changes;
+}
+
+export function getCompaniesWithoutId(): string[] {
+  return db
+    .query<{ company: string }, []>(
+      `SELECT DISTINCT company FROM jobs_canonical WHERE company_id IS NULL`,
+    )
+    .all()
+    .map((row) => row.company);
+}
+
+export function setCompanyIdForName(company: string, companyId: string): void {
+  db.run(
+    `UPDATE jobs_canonical SET company_id = ?
+     WHERE company = ? AND company_id IS NULL`,
+    [companyId, company],
+  );
+}
+
+export interface CompanyListing {
+  id: string;
+  name: string;
+  aliases: CompanyAliasRow[];
+  jobCount: number;
+}
+
+export function listCompanies(filter?: string): CompanyListing[] {
+  const pattern = `%${filter ?? ""}%`;
+  const companies = db
+    .query<CompanyRow & { job_count: number }, [string, string, string]>(
+      `SELECT c.id, c.name, c.created_at,
+              (SELECT COUNT(*) FROM jobs_canonical jc
+               WHERE jc.company_id = c.id) as job_count
+       FROM companies c
+       WHERE c.id LIKE ? OR c.name LIKE ? OR c.id IN (
+         SELECT company_id FROM company_aliases WHERE alias LIKE ?
+       )
+       ORDER BY job_count DESC, c.id`,
+    )
+    .all(pattern, pattern, pattern);
+
+  const aliasQuery = db.query<CompanyAliasRow, [string]>(
+    `SELECT alias, company_id, origin FROM company_aliases
+     WHERE company_id = ? AND alias != company_id
+     ORDER BY alias`,
+  );
+
+  return companies.map((company) => ({
+    id: company.id,
+    name: company.name,
+    aliases: aliasQuery.all(company.id),
+    jobCount: company.job_count,
+  }));
+}
+
+// Preference Learning
+
+export interface PreferenceJobRow {
+  id: number;
+  source: string;
+  company: string;
+  company_id: string | null;
+  title: string;
+  location_tier: string | null;
+  work_mode: string;
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  salary_period: SalaryPeriod | null;
+  skills: string | null; // "|"-separated
+  status: string;
+  score: number;
+}
+
+const PREFERENCE_JOB_COLUMNS = `
+  jc.id, jc.source, jc.company, jc.company_id, jc.title, jc.location_tier,
+  jc.work_mode, jc.salary_min, jc.salary_max, jc.salary_currency,
+  jc.salary_period, jc.status, jc.score,
+  (SELECT GROUP_CONCAT(js.skill, '|') FROM job_skills js
+   WHERE js.canonical_job_id = jc.id) AS skills`;
+
+// Applied jobs are positive examples, dismissed (Skip) jobs negative
+export function getLabelledJobs(): PreferenceJobRow[] {
+  return db
+    .query<PreferenceJobRow, []>(
+      `SELECT ${PREFERENCE_JOB_COLUMNS}
+       FROM jobs_canonical jc
+       WHERE jc.status IN ('applied', 'dismissed')`,
+    )
+    .all();
+}
+
+export function getRecentActiveJobs(limit: number): PreferenceJobRow[] {
+  return db
+    .query<PreferenceJobRow, [number]>(
+      `SELECT ${PREFERENCE_JOB_COLUMNS}
+       FROM jobs_canonical jc
+       WHERE jc.status = 'active' AND jc.is_backfill = 0
+       ORDER BY jc.first_seen_at DESC
+       LIMIT ?`,
+    )
+    .all(limit);
+}
+
+export interface PreferenceModelRow {
+  id: number;
+  trained_at: string;
+  samples: number;
+  positives: number;
+  bias: number;
+  weights_json: string;
+  accuracy: number;
+  enabled: number;
+}
+
+// New models are stored disabled; setPreferenceModelEnabled promotes one
+export function insertPreferenceModel(model: {
+  samples: number;
+  positives: number;
+  bias: number;
+  weights: Record<string, number>;
+  accuracy: number;
+}): number {
+  const result = db.run(
+    `INSERT INTO preference_models
+      (samples, positives, bias, weights_json, accuracy, enabled)
+     VALUES (?, ?, ?, ?, ?, 0)`,
+    [
+      model.samples,
+      model.positives,
+      model.bias,
+      JSON.stringify(model.weights),
+      model.accuracy,
+    ],
+  );
+  return Number(result.lastInsertRowid);
+}
+
+export function getPreferenceModel(id: number): PreferenceModelRow | null {
+  return db
+    .query<PreferenceModelRow, [number]>(
+      `SELECT * FROM preference_models WHERE id = ?`,
+    )
+    .get(id);
+}
+
+export function getLatestPreferenceModel(): PreferenceModelRow | null {
+  return db
+    .query<PreferenceModelRow, []>(
+      `SELECT * FROM preference_models ORDER BY id DESC LIMIT 1`,
+    )
+    .get();
+}
+
+export function getEnabledPreferenceModel(): PreferenceModelRow | null {
+  return db
+    .query<PreferenceModelRow, []>(
+      `SELECT * FROM preference_models WHERE enabled = 1
+       ORDER BY id DESC LIMIT 1`,
+    )
+    .get();
+}
+
+export function getEnabledPreferenceModelId(): number | null {
+  return (
+    db
+      .query<{ id: number }, []>(
+        `SELECT id FROM preference_models WHERE enabled = 1
+         ORDER BY id DESC LIMIT 1`,
+      )
+      .get()?.id ?? null
+  );
+}
+
+// At most one model is enabled; enabling one disables the rest
+export function setPreferenceModelEnabled(id: number, enabled: boolean): void {
+  db.transaction(() => {
+    if (enabled) {
+      db.run(`UPDATE preference_models SET enabled = 0 WHERE id != ?`, [id]);
+    }
+    db.run(`UPDATE preference_models SET enabled = ? WHERE id = ?`, [
+      enabled ? 1 : 0,
+      id,
+    ]);
+  })();
+}
+
 // Unsent Jobs (for digest)
 
 export function getUndigestedJobs(
@@ -542,7 +1206,9 @@ export function getUndigestedJobs(
     .query<CanonicalJobRow, [string]>(
       `SELECT id, title, company, source, url, city, location_tier,
               work_mode, score, score_freshness, score_location, score_mode,
-              score_band, posted_at, first_seen_at, title_bucket, status
+              score_band, posted_at, first_seen_at, title_bucket, title_rule,
+              status, language_requirement, work_authorization, distance_km,
+              score_pre_ai, score_band_pre_ai, rejected_reason
        FROM jobs_canonical
        WHERE title_bucket IN ('include', 'maybe')
          AND status = 'active'
@@ -555,15 +1221,20 @@ export function getUndigestedJobs(
 
 // Fuzzy Dedup Lookup
 
+export interface FuzzyDedupRow {
+  id: number;
+  company: string;
+  company_id: string | null;
+  title: string;
+  city: string | null;
+}
+
 export function getRecentJobsForFuzzyDedup(
   daysBack: number = 30,
-): Array<{ id: number; company: string; title: string; city: string | null }> {
+): FuzzyDedupRow[] {
   return db
-    .query<
-      { id: number; company: string; title: string; city: string | null },
-      [number]
-    >(
-      `SELECT id, company, title, city
+    .query<FuzzyDedupRow, [number]>(
+      `SELECT id, company, company_id, title, city
        FROM jobs_canonical
        WHERE status = 'active'
          AND first_seen_at >= datetime('now', '-' || ? || ' days')`,
@@ -583,7 +1254,12 @@ export interface DiscoveredBoard {
     | "smartrecruiters"
     | "bamboohr"
     | "workday"
-    | "icims";
+    | "icims"
+    | "recruitee"
+    | "teamtailor"
+    | "personio"
+    | "taleo"
+    | "successfactors";
   board_url: string;
   board_slug: string | null;
   company_guess: string | null;
@@ -598,7 +1274,12 @@ export function upsertDiscoveredBoard(input: {
     | "smartrecruiters"
     | "bamboohr"
     | "workday"
-    | "icims";
+    | "icims"
+    | "recruitee"
+    | "teamtailor"
+    | "personio"
+    | "taleo"
+    | "successfactors";
   boardUrl: string;
   boardSlug: string | null;
   companyGuess: string | null;
@@ -638,7 +1319,12 @@ export function getActiveDiscoveredBoards(
     | "smartrecruiters"
     | "bamboohr"
     | "workday"
-    | "icims",
+    | "icims"
+    | "recruitee"
+    | "teamtailor"
+    | "personio"
+    | "taleo"
+    | "successfactors",
 ): DiscoveredBoard[] {
   return db
     .query<DiscoveredBoard, [string]>(
@@ -650,13 +1336,27 @@ export function getActiveDiscoveredBoards(
     .all(platform);
 }
 
+// jobCount null (HTTP 304) records the success but leaves the zero-run
+// streak alone, since the board content is unchanged
 export function updateBoardPollState(
   boardId: number,
   success: boolean,
-  jobCount: number,
+  jobCount: number | null,
   cursor: string | null = null,
 ): void {
-  if (success && jobCount > 0) {
+  if (success && jobCount === null) {
+    db.run(
+      `INSERT INTO board_poll_state (board_id, last_success_at, updated_at)
+       VALUES (?, datetime('now'), datetime('now'))
+       ON CONFLICT(board_id) DO UPDATE SET
+         last_success_at = datetime('now'),
+         updated_at = datetime('now')`,
+      [boardId],
+    );
+    return;
+  }
+
+  if (success && jobCount !== null && jobCount > 0) {
     db.run(
       `INSERT INTO board_poll_state (board_id, last_success_at, last_cursor, consecutive_zero_runs, updated_at)
        VALUES (?, datetime('now'), ?, 0, datetime('now'))
@@ -824,6 +1524,36 @@ export function getFitAnalysis(canonicalJobId: number): FitAnalysisRow | null {
   );
 }
 
+// Job Detail Cache
+
+// Returns undefined when the URL was never fetched; null content marks a
+// fetch that failed and should not be retried
+export function getCachedJobDetail(
+  urlHash: string,
+): { content: string | null } | undefined {
+  return (
+    db
+      .query<{ content: string | null }, [string]>(
+        `SELECT content FROM job_detail_cache WHERE url_hash = ?`,
+      )
+      .get(urlHash) ?? undefined
+  );
+}
+
+export function cacheJobDetail(
+  urlHash: string,
+  source: string,
+  content: string | null,
+): void {
+  db.run(
+    `INSERT INTO job_detail_cache (url_hash, source, content) VALUES (?, ?, ?)
+     ON CONFLICT(url_hash) DO UPDATE SET
+       content = excluded.content,
+       fetched_at = datetime('now')`,
+    [urlHash, source, content],
+  );
+}
+
 // Alternate Job URLs
 
 export function insertAlternateUrl(
@@ -864,6 +1594,7 @@ export interface JobNeedingAnalysis {
   work_mode: string;
   score: number;
   score_band: string;
+  score_pre_ai: number;
   posted_at: string | null;
   first_seen_at: string;
   title_bucket: string;
@@ -873,8 +1604,9 @@ export function getJobsNeedingAnalysis(minScore: number): JobNeedingAnalysis[] {
   return db
     .query<JobNeedingAnalysis, [number]>(
       `SELECT jc.id, jc.title, jc.company, jc.source, jc.url, jc.city,
-              jc.work_mode, jc.score, jc.score_band, jc.posted_at,
-              jc.first_seen_at, jc.title_bucket
+              jc.work_mode, jc.score, jc.score_band,
+              COALESCE(jc.score_pre_ai, jc.score) AS score_pre_ai,
+              jc.posted_at, jc.first_seen_at, jc.title_bucket
        FROM jobs_canonical jc
        WHERE jc.status = 'active'
          AND jc.is_backfill = 0
@@ -898,16 +1630,21 @@ export interface JobNeedingAlert {
   work_mode: string;
   score: number;
   score_band: string;
+  score_pre_ai: number;
   posted_at: string | null;
   first_seen_at: string;
+  language_requirement: string | null;
+  distance_km: number | null;
 }
 
 export function getJobsNeedingAlerts(): JobNeedingAlert[] {
   return db
     .query<JobNeedingAlert, []>(
       `SELECT jc.id, jc.title, jc.company, jc.source, jc.url, jc.city,
-              jc.work_mode, jc.score, jc.score_band, jc.posted_at,
-              jc.first_seen_at
+              jc.work_mode, jc.score, jc.score_band,
+              COALESCE(jc.score_pre_ai, jc.score) AS score_pre_ai,
+              jc.posted_at, jc.first_seen_at, jc.language_requirement,
+              jc.distance_km
        FROM jobs_canonical jc
        WHERE jc.status = 'active'
          AND jc.is_backfill = 0
@@ -927,9 +1664,10 @@ export function getJobsNeedingAlerts(): JobNeedingAlert[] {
 export function getRawJobContent(canonicalJobId: number): string | null {
   const result = db
     .query<{ raw_payload: string }, [number]>(
-      `SELECT jr.raw_payload
+      `SELECT COALESCE(jdc.content, jr.raw_payload) AS raw_payload
        FROM jobs_raw jr
        INNER JOIN jobs_canonical jc ON jc.raw_job_id = jr.id
+       LEFT JOIN job_detail_cache jdc ON jdc.url_hash = jc.url_hash
         WHERE jc.id = ?`,
     )
     .get(canonicalJobId);
@@ -1009,6 +1747,7 @@ export interface WeeklySummary {
   bySource: Array<{ source: string; count: number }>;
   byScoreBand: Array<{ band: string; count: number }>;
   topLocations: Array<{ city: string; count: number }>;
+  topCompanies: Array<{ company: string; count: number }>;
 }
 
 export function getWeeklySummary(): WeeklySummary {
@@ -1077,6 +1816,19 @@ export function getWeeklySummary(): WeeklySummary {
     )
     .all();
 
+  // Grouped by registry id so "Shopify" and "shopify-careers" count once
+  const topCompanies = db
+    .query<{ company: string; count: number }, []>(
+      `SELECT COALESCE(c.name, MIN(jc.company)) as company, COUNT(*) as count
+       FROM jobs_canonical jc
+       LEFT JOIN companies c ON c.id = jc.company_id
+       WHERE jc.first_seen_at >= datetime('now', '-7 days')
+       GROUP BY COALESCE(jc.company_id, jc.company)
+       ORDER BY count DESC
+       LIMIT 10`,
+    )
+    .all();
+
   return {
     totalJobs,
     totalNew,
@@ -1085,5 +1837,6 @@ export function getWeeklySummary(): WeeklySummary {
     bySource,
     byScoreBand,
     topLocations,
+    topCompanies,
   };
 }
@@ -1,7 +1,7 @@
 /**
  * Three-pass deduplication engine.
  * 1. URL hash — exact URL match
- * 2. Fuzzy key — (company + title + city) with fuse.js
+ * 2. Fuzzy key — (registry company id + title + city) with fuse.js
  * 3. Content fingerprint — hash of description text
  * See FinalStrategy.md lines 380-403.
  */
@@ -21,6 +21,7 @@ import {
 type FuzzyJob = {
   id: number;
   company: string;
+  company_id: string | null;
   title: string;
   city: string | null;
 };
@@ -36,7 +37,7 @@ export function loadFuzzyCache(): void {
   const recentJobs = getRecentJobsForFuzzyDedup(7);
   _fuzzyCache = recentJobs.map((j) => ({
     ...j,
-    fuzzyKey: buildFuzzyKey(j.company, j.title, j.city),
+    fuzzyKey: buildFuzzyKey(j.company_id ?? j.company, j.title, j.city),
   }));
   _fuseInstance =
     _fuzzyCache.length > 0
@@ -108,7 +109,11 @@ function checkFuzzyDuplicate(job: CanonicalJob): DedupResult {
     return { isDuplicate: false };
   }
 
-  const newKey = buildFuzzyKey(job.company, job.title, job.city);
+  const newKey = buildFuzzyKey(
+    job.companyId ?? job.company,
+    job.title,
+    job.city,
+  );
   const matches = _fuseInstance.search(newKey);
 
   if (matches.length > 0 && matches[0].score !== undefined) {
@@ -136,6 +141,8 @@ function checkFuzzyDuplicate(job: CanonicalJob): DedupResult {
   return { isDuplicate: false };
 }
 
+// `company` is the registry id when known, so slug and legal-name spellings
+// of one employer produce the same key
 function buildFuzzyKey(
   company: string,
   title: string,
@@ -6,9 +6,23 @@ import {
   getDatabaseStats,
   quickHealthCheck,
 } from "./db";
-import { loadConfig, type AppConfig } from "./config";
+import {
+  loadConfig,
+  type AppConfig,
+  type CompanyPreferenceAction,
+} from "./config";
 import { startScheduler } from "./scheduler";
-import { handleCallbackQuery, startCallbackPolling } from "./alerts/callback";
+import {
+  handleCallbackQuery,
+  startCallbackPolling,
+  type TelegramUpdate,
+} from "./alerts/callback";
+import { handleCommandMessage } from "./alerts/commands";
+import {
+  buildCompanyPreference,
+  setCompanyPreference,
+} from "./companies/preferences";
+import { rescoreActiveJobs } from "./scoring/rescore";
 import {
   getJobsByScore,
   getJobById,
@@ -18,8 +32,12 @@ import {
   getWeeklySummary,
   getFitAnalysis,
   getAlternateUrls,
+  getCircuitBreakers,
+  getJobSkills,
+  getJobLocations,
+  getScoreBreakdown,
 } from "./db/operations";
-import type { TitleBucket, JobStatus } from "./types";
+import type { TitleBucket, JobStatus, WorkAuthorization } from "./types";
 
 logger.info("═══════════════════════════════════════════════════");
 logger.info("  Job Search Automation Engine");
@@ -86,12 +104,35 @@ app.get("/status", (c) => {
       workable: config.companies.workable?.length ?? 0,
       smartrecruiters: config.companies.smartrecruiters?.length ?? 0,
       bamboohr: config.companies.bamboohr?.length ?? 0,
+      recruitee: config.companies.recruitee?.length ?? 0,
+      teamtailor: config.companies.teamtailor?.length ?? 0,
+      personio: config.companies.personio?.length ?? 0,
+      taleo: config.companies.taleo?.length ?? 0,
+      successfactors: config.companies.successfactors?.length ?? 0,
+      jsonld: config.companies.jsonld?.length ?? 0,
+      jobbank: config.companies.jobbank?.length ?? 0,
+      publicsector: config.companies.publicsector?.length ?? 0,
+      hackernews: config.companies.hackernews?.length ?? 0,
     },
     serpApiKeys: config.env.serpApiKeys.length,
+    circuitBreakers: getCircuitBreakers().map((breaker) => ({
+      platform: breaker.key,
+      state: breaker.state,
+      failures: breaker.failure_count,
+      openedAt: breaker.opened_at,
+      lastError: breaker.last_error,
+    })),
     database: stats,
   });
 });
 
+const WORK_AUTHORIZATIONS: WorkAuthorization[] = [
+  "sponsorship_offered",
+  "no_sponsorship",
+  "clearance_required",
+  "unknown",
+];
+
 app.get("/api/jobs", (c) => {
   const limit = parseInt(c.req.query("limit") ?? "50", 10);
   const offset = parseInt(c.req.query("offset") ?? "0", 10);
@@ -99,13 +140,36 @@ app.get("/api/jobs", (c) => {
   const bucket = c.req.query("bucket") as TitleBucket | undefined;
   const status = (c.req.query("status") as JobStatus) ?? "active";
   const since = c.req.query("since") as string | undefined;
+  const city = c.req.query("city")?.trim() || undefined;
   const minScore = Number.parseInt(c.req.query("minScore") ?? "", 10);
   const tiersRaw = c.req.query("tiers") ?? c.req.query("tier") ?? "";
+  const workAuthRaw = c.req.query("workAuth") ?? "";
+  const skillsRaw = c.req.query("skills") ?? c.req.query("skill") ?? "";
 
   const tiers = tiersRaw
     .split(",")
     .map((tier) => tier.trim())
     .filter((tier) => tier.length > 0);
+  const workAuthValues = workAuthRaw
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+  const unknownWorkAuth = workAuthValues.filter(
+    (value) => !WORK_AUTHORIZATIONS.includes(value as WorkAuthorization),
+  );
+  if (unknownWorkAuth.length > 0) {
+    return c.json(
+      {
+        error: `Unknown workAuth value: ${unknownWorkAuth.join(", ")} (expected ${WORK_AUTHORIZATIONS.join(", ")})`,
+      },
+      400,
+    );
+  }
+  const workAuthorization = workAuthValues as WorkAuthorization[];
+  const skills = skillsRaw
+    .split(",")
+    .map((skill) => skill.trim())
+    .filter((skill) => skill.length > 0);
 
   const bandRanges: Record<string, { min: number; max: number }> = {
     topPriority: { min: 80, max: 100 },
@@ -123,13 +187,17 @@ app.get("/api/jobs", (c) => {
     minScore: Number.isFinite(minScore) ? minScore : selectedBand?.min,
     maxScore: selectedBand?.max,
     tiers: tiers.length > 0 ? tiers : undefined,
+    city,
+    workAuthorization:
+      workAuthorization.length > 0 ? workAuthorization : undefined,
+    skills: skills.length > 0 ? skills : undefined,
   });
 
   return c.json({
     count: jobs.length,
     offset,
     limit,
-    jobs,
+    jobs: jobs.map((job) => ({ ...job, skills: getJobSkills(job.id) })),
   });
 });
 
@@ -143,6 +211,9 @@ app.get("/api/jobs/:id", (c) => {
 
   return c.json({
     ...job,
+    scoreBreakdown: getScoreBreakdown(id),
+    locations: getJobLocations(id),
+    skills: getJobSkills(id),
     fitAnalysis: getFitAnalysis(id),
     alternateUrls: getAlternateUrls(id),
   });
@@ -174,11 +245,10 @@ app.post("/api/jobs/:id/dismissed", (c) => {
 
 app.post("/api/telegram/callback", async (c) => {
   try {
-    const update = await c.req.json();
-    const result = await handleCallbackQuery(
-      update,
-      config.env.telegramBotToken,
-    );
+    const update = (await c.req.json()) as TelegramUpdate;
+    const result = update.message
+      ? await handleCommandMessage(update.message, config)
+      : await handleCallbackQuery(update, config.env.telegramBotToken);
     return c.json(result);
   } catch (error) {
     logger.error(`Telegram callback error: ${error}`);
@@ -186,6 +256,46 @@ app.post("/api/telegram/callback", async (c) => {
   }
 });
 
+// Company watchlist/blocklist. Optional JSON body: { "points": 25 } for
+// boost and penalty, { "reason": "ex-employer" } for any action.
+app.get("/api/companies/preferences", (c) => {
+  return c.json(config.companyPreferences);
+});
+
+app.post(
+  "/api/companies/:name/:action{boost|penalty|block|clear}",
+  async (c) => {
+    const name = c.req.param("name").trim();
+    const action = c.req.param("action");
+    const body = (await c.req.json().catch(() => ({}))) as {
+      points?: unknown;
+      reason?: unknown;
+    };
+
+    if (body.points !== undefined && !Number.isInteger(body.points)) {
+      return c.json({ error: "points must be an integer" }, 400);
+    }
+    if (!name) {
+      return c.json({ error: "Company name required" }, 400);
+    }
+
+    const update = setCompanyPreference(
+      config,
+      name,
+      action === "clear"
+        ? null
+        : buildCompanyPreference(
+            action as CompanyPreferenceAction,
+            body.points as number | undefined,
+            typeof body.reason === "string" ? body.reason.trim() : undefined,
+          ),
+    );
+    const rescored = action === "block" ? 0 : rescoreActiveJobs(config).updated;
+
+    return c.json({ success: true, action, ...update, rescored });
+  },
+);
+
 app.get("/api/analytics/sources", (c) => {
   const days = parseInt(c.req.query("days") ?? "7", 10);
   const analytics = getSourceAnalytics(days);
@@ -213,6 +323,7 @@ startScheduler(config);
 // Fallback path for local/dev deployments where no public webhook is configured.
 startCallbackPolling(config.env.telegramBotToken, {
   force: process.env.TELEGRAM_FORCE_POLLING === "true",
+  onMessage: (message) => handleCommandMessage(message, config),
 });
 
 export default {
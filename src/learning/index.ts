@@ -0,0 +1,320 @@
+/**
+ * Preference learning — fits a logistic regression over applied (✅) vs
+ * dismissed (❌ Skip) jobs and turns it into the "preference" scoring
+ * factor. Features are plain strings such as "company:shopify" or
+ * "title:react", so every weight can be read and reported as-is.
+ * Models are stored in preference_models; only an enabled model affects
+ * scores (see `bun run preferences`).
+ */
+
+import { logger } from "../logger";
+import { annualizeSalary, companyKey } from "../normalizer";
+import {
+  getEnabledPreferenceModel,
+  getEnabledPreferenceModelId,
+  getLabelledJobs,
+  getLatestPreferenceModel,
+  insertPreferenceModel,
+  type PreferenceJobRow,
+  type PreferenceModelRow,
+} from "../db/operations";
+import type { AppConfig, PreferenceLearningConfig } from "../config";
+import type { FactorScore } from "../scoring";
+import type { CanonicalJob } from "../types";
+
+export interface PreferenceModel {
+  id: number;
+  trainedAt: string;
+  samples: number;
+  positives: number;
+  bias: number;
+  weights: Record<string, number>;
+  accuracy: number; // On the training set
+  enabled: boolean;
+}
+
+// The job fields features are built from, shared by CanonicalJob and
+// stored rows
+export interface PreferenceFeatureInput {
+  source: string;
+  company: string;
+  companyId: string | null;
+  title: string;
+  locationTier: string | null;
+  workMode: string;
+  skills: string[];
+  salaryMin: number | null;
+  salaryMax: number | null;
+  salaryCurrency: string | null;
+  salaryPeriod: CanonicalJob["salaryPeriod"];
+}
+
+const DEFAULT_LEARNING: PreferenceLearningConfig = {
+  minSamples: 20,
+  minFeatureCount: 3,
+  iterations: 500,
+  learningRate: 0.5,
+  l2: 0.01,
+  pointsPerLogit: 5,
+  maxPoints: 15,
+};
+
+const TITLE_STOPWORDS = new Set([
+  "and",
+  "the",
+  "for",
+  "with",
+  "of",
+  "to",
+  "in",
+  "at",
+  "a",
+  "an",
+]);
+
+export function getLearningConfig(config: AppConfig): PreferenceLearningConfig {
+  return { ...DEFAULT_LEARNING, ...config.scoring.learning };
+}
+
+// Features
+
+export function extractPreferenceFeatures(
+  job: PreferenceFeatureInput,
+  config: AppConfig,
+): string[] {
+  const features = new Set<string>([
+    `source:${job.source}`,
+    `company:${job.companyId ?? companyKey(job.company)}`,
+    `tier:${job.locationTier ?? "none"}`,
+    `mode:${job.workMode}`,
+    `salary:${salaryFeature(job, config)}`,
+  ]);
+
+  for (const token of job.title.toLowerCase().split(/[^a-z0-9+#.]+/)) {
+    const word = token.replace(/^\.+|\.+$/g, "");
+    if (word.length > 1 && !TITLE_STOPWORDS.has(word)) {
+      features.add(`title:${word}`);
+    }
+  }
+  for (const skill of job.skills) {
+    features.add(`skill:${skill.toLowerCase()}`);
+  }
+
+  return [...features];
+}
+
+// "none", "other-currency", or where the range sits against the salary
+// factor's target range
+function salaryFeature(job: PreferenceFeatureInput, config: AppConfig): string {
+  const salary = config.scoring.salary;
+  const annual = annualizeSalary(job, salary?.hoursPerYear ?? 2080);
+  if (!annual) return "none";
+  if (!salary) return "listed";
+  if (job.salaryCurrency !== null && job.salaryCurrency !== salary.currency) {
+    return "other-currency";
+  }
+  if (annual.max < salary.targetMin) return "below-target";
+  if (annual.min >= salary.targetMax) return "above-target";
+  return "within-target";
+}
+
+export function rowToFeatureInput(
+  row: PreferenceJobRow,
+): PreferenceFeatureInput {
+  return {
+    source: row.source,
+    company: row.company,
+    companyId: row.company_id,
+    title: row.title,
+    locationTier: row.location_tier,
+    workMode: row.work_mode,
+    skills: row.skills ? row.skills.split("|") : [],
+    salaryMin: row.salary_min,
+    salaryMax: row.salary_max,
+    salaryCurrency: row.salary_currency,
+    salaryPeriod: row.salary_period,
+  };
+}
+
+// Training
+
+// Batch gradient descent with L2 regularization. Returns null (and stores
+// nothing) until both classes have enough labelled jobs. New models are
+// stored disabled: the enabled one keeps scoring until
+// `bun run preferences enable <id>` promotes another after a preview.
+export function trainPreferenceModel(
+  config: AppConfig,
+): PreferenceModel | null {
+  const learning = getLearningConfig(config);
+  const rows = getLabelledJobs();
+  const positives = rows.filter((row) => row.status === "applied").length;
+
+  if (
+    rows.length < learning.minSamples ||
+    positives === 0 ||
+    positives === rows.length
+  ) {
+    logger.info(
+      `Preference learning: ${rows.length} labelled jobs (${positives} applied) — need ${learning.minSamples} with both applied and dismissed`,
+    );
+    return null;
+  }
+
+  const samples = rows.map((row) => ({
+    features: extractPreferenceFeatures(rowToFeatureInput(row), config),
+    label: row.status === "applied" ? 1 : 0,
+  }));
+
+  // Rare features only memorize single jobs
+  const counts = new Map<string, number>();
+  for (const sample of samples) {
+    for (const feature of sample.features) {
+      counts.set(feature, (counts.get(feature) ?? 0) + 1);
+    }
+  }
+  const kept = new Set(
+    [...counts]
+      .filter(([, count]) => count >= learning.minFeatureCount)
+      .map(([feature]) => feature),
+  );
+  for (const sample of samples) {
+    sample.features = sample.features.filter((f) => kept.has(f));
+  }
+
+  const weights = new Map<string, number>([...kept].map((f) => [f, 0]));
+  let bias = Math.log(positives / (rows.length - positives));
+
+  for (let i = 0; i < learning.iterations; i++) {
+    const gradients = new Map<string, number>();
+    let biasGradient = 0;
+
+    for (const sample of samples) {
+      const error = predict(sample.features, weights, bias) - sample.label;
+      biasGradient += error;
+      for (const feature of sample.features) {
+        gradients.set(feature, (gradients.get(feature) ?? 0) + error);
+      }
+    }
+
+    bias -= (learning.learningRate * biasGradient) / samples.length;
+    for (const [feature, weight] of weights) {
+      const gradient =
+        (gradients.get(feature) ?? 0) / samples.length + learning.l2 * weight;
+      weights.set(feature, weight - learning.learningRate * gradient);
+    }
+  }
+
+  const correct = samples.filter(
+    (s) => (predict(s.features, weights, bias) >= 0.5 ? 1 : 0) === s.label,
+  ).length;
+
+  const rounded: Record<string, number> = {};
+  for (const [feature, weight] of weights) {
+    rounded[feature] = Math.round(weight * 1000) / 1000;
+  }
+
+  const id = insertPreferenceModel({
+    samples: samples.length,
+    positives,
+    bias,
+    weights: rounded,
+    accuracy: correct / samples.length,
+  });
+
+  logger.info(
+    `Preference learning: model #${id} from ${samples.length} jobs (${positives} applied), ${kept.size} features, training accuracy ${Math.round((correct / samples.length) * 100)}% — not enabled until \`bun run preferences enable ${id}\``,
+  );
+
+  return toModel(getLatestPreferenceModel()!);
+}
+
+function predict(
+  features: string[],
+  weights: Map<string, number>,
+  bias: number,
+): number {
+  let z = bias;
+  for (const feature of features) {
+    z += weights.get(feature) ?? 0;
+  }
+  return 1 / (1 + Math.exp(-z));
+}
+
+export function toModel(row: PreferenceModelRow): PreferenceModel {
+  return {
+    id: row.id,
+    trainedAt: row.trained_at,
+    samples: row.samples,
+    positives: row.positives,
+    bias: row.bias,
+    weights: JSON.parse(row.weights_json) as Record<string, number>,
+    accuracy: row.accuracy,
+    enabled: row.enabled === 1,
+  };
+}
+
+// Features sorted by weight, strongest preference first
+export function rankPreferenceWeights(
+  model: PreferenceModel,
+): Array<{ feature: string; weight: number }> {
+  return Object.entries(model.weights)
+    .map(([feature, weight]) => ({ feature, weight }))
+    .filter((entry) => entry.weight !== 0)
+    .sort((a, b) => b.weight - a.weight);
+}
+
+// Scoring
+
+// The enabled model is re-read only when a different one is enabled, so the
+// server picks up `bun run preferences enable` without a restart
+let cachedModel: PreferenceModel | null = null;
+
+function getEnabledModel(): PreferenceModel | null {
+  const id = getEnabledPreferenceModelId();
+  if (id === null) {
+    cachedModel = null;
+  } else if (cachedModel?.id !== id) {
+    const row = getEnabledPreferenceModel();
+    cachedModel = row ? toModel(row) : null;
+  }
+  return cachedModel;
+}
+
+export function scorePreference(
+  job: CanonicalJob,
+  config: AppConfig,
+): FactorScore | null {
+  const model = getEnabledModel();
+  if (!model) return null;
+
+  const skills = job.skills.map((skill) => skill.name);
+  return adjustForPreferences({ ...job, skills }, model, config);
+}
+
+// Points from a model, whether or not it is enabled (used by the preview)
+export function adjustForPreferences(
+  job: PreferenceFeatureInput,
+  model: PreferenceModel,
+  config: AppConfig,
+): FactorScore {
+  const learning = getLearningConfig(config);
+  const contributions = extractPreferenceFeatures(job, config)
+    .map((feature) => ({ feature, weight: model.weights[feature] ?? 0 }))
+    .filter((entry) => entry.weight !== 0);
+
+  const logit = contributions.reduce((sum, entry) => sum + entry.weight, 0);
+  const points = Math.max(
+    -learning.maxPoints,
+    Math.min(learning.maxPoints, Math.round(logit * learning.pointsPerLogit)),
+  );
+
+  const top = contributions
+    .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+    .slice(0, 3)
+    .map((entry) => `${entry.weight > 0 ? "+" : "−"}${entry.feature}`);
+
+  return {
+    points,
+    reason: top.length > 0 ? `learned: ${top.join(", ")}` : "learned: neutral",
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { detectLanguageRequirement } from "./normalizer";
+
+const FRENCH_POSTING = `
+Nous recherchons un développeur pour rejoindre notre équipe.
+Vous travaillerez avec les équipes produit et design sur la plateforme.
+Votre rôle : concevoir des services pour nos clients et maintenir le code.
+Vous avez plus de 3 ans d'expérience avec les outils infonuagiques.
+Le poste est basé à Montréal, avec deux jours par semaine dans nos bureaux.
+`;
+
+describe("detectLanguageRequirement", () => {
+  test("flags postings written in French", () => {
+    expect(detectLanguageRequirement("Développeur", FRENCH_POSTING)).toBe(
+      "french",
+    );
+  });
+
+  test("does not read an English posting with French phrases as French", () => {
+    const content =
+      "We are hiring a developer to join the team in our Montréal office. " +
+      "You will work with le produit and la plateforme. French is an asset.";
+    expect(detectLanguageRequirement("Developer", content)).toBe(
+      "french_asset",
+    );
+  });
+
+  test.each([
+    "Fluency in English and French is required.",
+    "Must be bilingual (English/French).",
+    "Bilingue (français et anglais) obligatoire.",
+    "Le français est essentiel.",
+  ])("%s → bilingual", (content) => {
+    expect(detectLanguageRequirement("Developer", content)).toBe("bilingual");
+  });
+
+  test("reads the title as well as the description", () => {
+    expect(detectLanguageRequirement("Bilingual Developer", "")).toBe(
+      "bilingual",
+    );
+  });
+
+  test.each([
+    "French is an asset.",
+    "Knowledge of French would be a plus.",
+    "Bilingualism is considered an added plus.",
+    "Le bilinguisme est un atout.",
+    "La connaissance du français est un plus.",
+    "French preferred.",
+  ])("%s → french_asset", (content) => {
+    expect(detectLanguageRequirement("Developer", content)).toBe(
+      "french_asset",
+    );
+  });
+
+  test("does not treat a bare French 'plus' as an asset", () => {
+    expect(
+      detectLanguageRequirement(
+        "Developer",
+        "Français requis, plus de 3 ans d'expérience.",
+      ),
+    ).toBe("bilingual");
+  });
+
+  test("lets a requirement outrank an asset elsewhere in the posting", () => {
+    const content =
+      "Spanish is an asset. French is a bonus.\nMust be bilingual in French.";
+    expect(detectLanguageRequirement("Developer", content)).toBe("bilingual");
+  });
+
+  test("ignores either-language and non-French bilingual wording", () => {
+    expect(
+      detectLanguageRequirement(
+        "Developer",
+        "Service in English or French. Bilingual (English/Spanish) required.",
+      ),
+    ).toBe("none");
+  });
+
+  test("returns none when French is not mentioned", () => {
+    expect(
+      detectLanguageRequirement("Developer", "Strong English skills."),
+    ).toBe("none");
+  });
+});
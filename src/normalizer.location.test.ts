@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { loadConfig } from "./config";
+import { classifyLocation } from "./normalizer";
+
+const config = loadConfig();
+
+describe("classifyLocation", () => {
+  test("keeps every location and scores the best one", () => {
+    const result = classifyLocation("Vancouver, BC; Toronto, ON", config);
+
+    expect(result.locations.map((l) => [l.label, l.tier])).toEqual([
+      ["Vancouver, BC", "L4"],
+      ["Toronto, ON", "L1"],
+    ]);
+    expect(result).toMatchObject({
+      city: "Toronto",
+      province: "ON",
+      country: "CA",
+      tier: "L1",
+    });
+    expect(result.allLocations).toEqual(["Vancouver", "Toronto"]);
+  });
+
+  test("reports the nearest location's distance", () => {
+    const result = classifyLocation("Vancouver, BC; Toronto, ON", config);
+    const [vancouver, toronto] = result.locations;
+
+    expect(toronto!.distanceKm).toBeLessThan(vancouver!.distanceKm!);
+    expect(result.distanceKm).toBe(toronto!.distanceKm);
+  });
+
+  test.each(["Toronto | Ottawa", "Toronto / Ottawa", "Toronto\nOttawa"])(
+    "splits %p into two locations",
+    (locationRaw) => {
+      expect(classifyLocation(locationRaw, config).locations).toHaveLength(2);
+    },
+  );
+
+  test("keeps commas inside a location and drops duplicates", () => {
+    expect(
+      classifyLocation("Toronto, ON, Canada; Toronto, ON, Canada", config)
+        .locations,
+    ).toHaveLength(1);
+  });
+
+  test("does not score a same-named city in another country", () => {
+    expect(classifyLocation("London, UK", config)).toMatchObject({
+      country: "GB",
+      tier: null,
+      points: 0,
+    });
+    expect(classifyLocation("London, ON", config).tier).toBe("L3");
+  });
+
+  test("gives no points to remote roles limited to other countries", () => {
+    expect(classifyLocation("Remote - US only", config)).toMatchObject({
+      remoteRegion: "US",
+      points: 0,
+    });
+    expect(classifyLocation("Remote - Europe", config).remoteRegion).toBe(
+      "EU",
+    );
+  });
+
+  test("prefers the eligible remote region when several are listed", () => {
+    expect(
+      classifyLocation("Remote (US); Remote Canada", config),
+    ).toMatchObject({ remoteRegion: "CA", tier: "L5" });
+  });
+
+  test("returns an empty classification for a blank location", () => {
+    expect(classifyLocation("", config)).toMatchObject({
+      city: null,
+      tier: null,
+      points: 0,
+      locations: [],
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, expect, test } from "bun:test";
+import { annualizeSalary, extractSalary, parseSalaryText } from "./normalizer";
+import type { RawJob } from "./types";
+
+function rawJob(content: string, payload: unknown = {}): RawJob {
+  return {
+    source: "greenhouse",
+    sourceJobId: "1",
+    title: "Developer",
+    company: "Acme",
+    url: "https://example.com/jobs/1",
+    locationRaw: "Toronto, ON",
+    postedAt: null,
+    originalTimezone: null,
+    content,
+    rawPayload: JSON.stringify(payload),
+  };
+}
+
+describe("parseSalaryText", () => {
+  test("reads a dollar range as a yearly salary", () => {
+    expect(parseSalaryText("Pay: $90,000–$120,000 plus bonus")).toEqual({
+      min: 90000,
+      max: 120000,
+      currency: null,
+      period: "year",
+    });
+  });
+
+  test("applies a trailing k to both bounds", () => {
+    expect(parseSalaryText("Compensation 90-120k CAD")).toEqual({
+      min: 90000,
+      max: 120000,
+      currency: "CAD",
+      period: "year",
+    });
+  });
+
+  test("reads hourly ranges with currency prefixes", () => {
+    expect(parseSalaryText("CA$45.50 to 55 per hour")).toEqual({
+      min: 45.5,
+      max: 55,
+      currency: "CAD",
+      period: "hour",
+    });
+  });
+
+  test("resolves $ through a trailing currency code", () => {
+    expect(parseSalaryText("$150,000 - $180,000 USD annually")).toEqual({
+      min: 150000,
+      max: 180000,
+      currency: "USD",
+      period: "year",
+    });
+  });
+
+  test("decodes HTML entities around the range", () => {
+    expect(
+      parseSalaryText("<p>$95,000&nbsp;&ndash;&nbsp;$110,000</p>"),
+    ).toMatchObject({ min: 95000, max: 110000, period: "year" });
+  });
+
+  test("skips 401k, years and headcounts", () => {
+    expect(parseSalaryText("Great 401k match since 2015")).toBeNull();
+    expect(parseSalaryText("5+ years of experience, team of 40")).toBeNull();
+  });
+
+  test("skips user and customer counts written with k", () => {
+    expect(
+      parseSalaryText("Join our platform serving 500k users across Canada."),
+    ).toBeNull();
+    expect(
+      parseSalaryText("Our team of 20 ships to 100k+ customers."),
+    ).toBeNull();
+  });
+
+  test("reads a lone k amount next to a salary word", () => {
+    expect(parseSalaryText("Base salary: 120k plus equity")).toEqual({
+      min: 120000,
+      max: 120000,
+      currency: null,
+      period: "year",
+    });
+    expect(parseSalaryText("Serving 500k users. Pay: 95k")).toMatchObject({
+      min: 95000,
+    });
+  });
+
+  test("skips amounts outside the plausible range for their period", () => {
+    expect(parseSalaryText("$5 per hour")).toBeNull();
+    expect(parseSalaryText("$500 wellness budget")).toBeNull();
+  });
+});
+
+describe("extractSalary", () => {
+  test("prefers a JSON-LD baseSalary over the description", () => {
+    const salary = extractSalary(
+      rawJob("Up to $200,000", {
+        baseSalary: {
+          "@type": "MonetaryAmount",
+          currency: "CAD",
+          value: {
+            "@type": "QuantitativeValue",
+            minValue: 100000,
+            maxValue: 130000,
+            unitText: "YEAR",
+          },
+        },
+      }),
+    );
+
+    expect(salary).toEqual({
+      min: 100000,
+      max: 130000,
+      currency: "CAD",
+      period: "year",
+    });
+  });
+
+  test("reads Ashby compensation components", () => {
+    const salary = extractSalary(
+      rawJob("", {
+        compensation: {
+          summaryComponents: [
+            { compensationType: "EquityPercentage", minValue: 0.1 },
+            {
+              compensationType: "Salary",
+              interval: "1 YEAR",
+              currencyCode: "USD",
+              minValue: 140000,
+              maxValue: 170000,
+            },
+          ],
+        },
+      }),
+    );
+
+    expect(salary).toEqual({
+      min: 140000,
+      max: 170000,
+      currency: "USD",
+      period: "year",
+    });
+  });
+
+  test("reads the SmartRecruiters compensation block", () => {
+    const salary = extractSalary(
+      rawJob("", {
+        compensation: { min: "60", max: "75", currency: "cad", period: "hr" },
+      }),
+    );
+
+    expect(salary).toEqual({
+      min: 60,
+      max: 75,
+      currency: "CAD",
+      period: "hour",
+    });
+  });
+
+  test("falls back to the description for unusable payloads", () => {
+    expect(extractSalary(rawJob("$80k - $95k", "not json"))).toMatchObject({
+      min: 80000,
+      max: 95000,
+    });
+    const malformed = { ...rawJob("$80k"), rawPayload: "{" };
+    expect(extractSalary(malformed)).toMatchObject({ min: 80000, max: 80000 });
+  });
+});
+
+describe("annualizeSalary", () => {
+  test("scales hourly ranges by the configured hours", () => {
+    expect(
+      annualizeSalary(
+        { salaryMin: 50, salaryMax: 60, salaryPeriod: "hour" },
+        2000,
+      ),
+    ).toEqual({ min: 100000, max: 120000 });
+  });
+
+  test("uses the maximum when only one bound is known", () => {
+    expect(
+      annualizeSalary(
+        { salaryMin: null, salaryMax: 8000, salaryPeriod: "month" },
+        2000,
+      ),
+    ).toEqual({ min: 96000, max: 96000 });
+  });
+
+  test("returns null without a salary", () => {
+    expect(
+      annualizeSalary(
+        { salaryMin: null, salaryMax: null, salaryPeriod: null },
+        2000,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import { loadConfig } from "./config";
+import { classifySeniority, extractExperienceYears } from "./normalizer";
+import type { SeniorityLevel } from "./types";
+
+const config = loadConfig();
+
+describe("classifySeniority", () => {
+  test.each<[string, SeniorityLevel]>([
+    ["Software Engineering Intern", "intern"],
+    ["Co-op Developer (Winter 2027)", "intern"],
+    ["Senior Engineering Manager", "manager"],
+    ["Staff Software Engineer", "staff"],
+    ["Sr. Backend Developer", "senior"],
+    ["Software Engineer III", "senior"],
+    ["Junior Frontend Developer", "junior"],
+    ["Software Developer I", "junior"],
+    ["Software Developer II", "intermediate"],
+    ["Mid-level Data Engineer", "intermediate"],
+  ])("%s → %s", (title, level) => {
+    expect(classifySeniority(title, "", config).level).toBe(level);
+  });
+
+  test("lets the title win over the years asked for", () => {
+    expect(
+      classifySeniority("Junior Developer", "3+ years of experience", config),
+    ).toEqual({ level: "junior", experienceYears: 3 });
+  });
+
+  test("falls back to the years of experience", () => {
+    const level = (content: string) =>
+      classifySeniority("Software Developer", content, config).level;
+
+    expect(level("1 year of experience with React")).toBe("junior");
+    expect(level("3-5 years of professional experience")).toBe(
+      "intermediate",
+    );
+    expect(level("Minimum 6 years experience")).toBe("senior");
+    expect(level("10+ years of hands-on engineering experience")).toBe("staff");
+  });
+
+  test("leaves the level unknown without a title token or years", () => {
+    expect(classifySeniority("Software Developer", "", config)).toEqual({
+      level: null,
+      experienceYears: null,
+    });
+  });
+
+  test("does not read a roman numeral inside a word as a level", () => {
+    expect(classifySeniority("Civil Engineer", "", config).level).toBeNull();
+  });
+});
+
+describe("extractExperienceYears", () => {
+  test("takes the highest minimum mentioned", () => {
+    expect(
+      extractExperienceYears(
+        "2+ years of Python experience and 5+ years of overall experience",
+      ),
+    ).toBe(5);
+  });
+
+  test("reads French postings", () => {
+    expect(extractExperienceYears("Minimum 3 ans d'expérience")).toBe(3);
+    expect(extractExperienceYears("plus de 4 ans d’expérience")).toBe(4);
+  });
+
+  test("ignores years that are not about experience", () => {
+    expect(extractExperienceYears("Founded 12 years ago")).toBeNull();
+    expect(extractExperienceYears("30 years of team experience")).toBeNull();
+  });
+
+  test("strips markup before matching", () => {
+    expect(
+      extractExperienceYears("<li>4&nbsp;years <b>of</b> experience</li>"),
+    ).toBe(4);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { loadConfig } from "./config";
+import { extractSkills } from "./normalizer";
+
+const config = loadConfig();
+
+function skillNames(title: string, content: string): string[] {
+  return extractSkills(title, content, config).map((skill) => skill.name);
+}
+
+describe("extractSkills", () => {
+  test("tags skills from the title and description with categories", () => {
+    const skills = extractSkills(
+      "TypeScript Developer",
+      "<p>We use React and PostgreSQL on AWS.</p>",
+      config,
+    );
+
+    expect(skills.map((skill) => skill.name).sort()).toEqual([
+      "AWS",
+      "PostgreSQL",
+      "React",
+      "TypeScript",
+    ]);
+    expect(skills.every((skill) => skill.category.length > 0)).toBe(true);
+  });
+
+  test("matches aliases", () => {
+    expect(skillNames("Developer", "Experience with golang and k8s")).toEqual(
+      expect.arrayContaining(["Go", "Kubernetes"]),
+    );
+  });
+
+  test("keeps word boundaries around dotted and symbol names", () => {
+    expect(skillNames("Developer", "JavaScript and PostgreSQL")).not.toContain(
+      "Java",
+    );
+    expect(skillNames("Developer", "PostgreSQL")).not.toContain("SQL");
+    expect(skillNames("Developer", "C# and .NET Core, C++")).toEqual(
+      expect.arrayContaining(["C#", ".NET", "C++"]),
+    );
+  });
+
+  test("matches case-sensitive names only in their usual casing", () => {
+    expect(skillNames("Developer", "Ready to go with Rust")).toEqual(["Rust"]);
+    expect(skillNames("Developer", "Go-to-market tooling")).toEqual([]);
+    expect(skillNames("Developer", "We rest on our laurels")).toEqual([]);
+  });
+
+  test("decodes escaped markup before matching", () => {
+    expect(
+      skillNames("Developer", "&lt;li&gt;Node.js&lt;/li&gt;&lt;li&gt;Redis"),
+    ).toEqual(["Node.js", "Redis"]);
+  });
+});
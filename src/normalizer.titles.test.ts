@@ -0,0 +1,133 @@
+import { describe, expect, test } from "bun:test";
+import { loadConfig, type AppConfig, type TitleRule } from "./config";
+import { matchTitleRule } from "./normalizer";
+
+const baseConfig = loadConfig();
+
+function withTitles(titles: {
+  include?: TitleRule[];
+  reject?: TitleRule[];
+  maybe?: TitleRule[];
+  includePatterns?: string[];
+  rejectPatterns?: string[];
+}): AppConfig {
+  const file = (patterns: string[] = [], rules: TitleRule[] = []) => ({
+    description: "",
+    patterns,
+    rules,
+  });
+  return {
+    ...baseConfig,
+    includeTitles: file(titles.includePatterns, titles.include),
+    rejectTitles: file(titles.rejectPatterns, titles.reject),
+    maybeTitles: file([], titles.maybe),
+  };
+}
+
+describe("matchTitleRule", () => {
+  test("records the bucket and the rule that matched", () => {
+    const config = withTitles({ includePatterns: ["developer"] });
+
+    expect(matchTitleRule("Web Developer", config)).toEqual({
+      bucket: "include",
+      rule: "include:developer",
+    });
+    expect(matchTitleRule("Accountant", config)).toEqual({
+      bucket: "reject",
+      rule: null,
+    });
+  });
+
+  test("ranks plain patterns reject > include > maybe", () => {
+    const config = withTitles({
+      includePatterns: ["developer"],
+      rejectPatterns: ["senior"],
+    });
+
+    expect(matchTitleRule("Senior Developer", config).rule).toBe(
+      "reject:senior",
+    );
+  });
+
+  test("lets a rule priority outrank the file order", () => {
+    const config = withTitles({
+      rejectPatterns: ["lead"],
+      include: [{ name: "lead developer", priority: 40, match: "lead dev" }],
+    });
+
+    expect(matchTitleRule("Lead Dev", config).bucket).toBe("include");
+    expect(matchTitleRule("Team Lead", config).bucket).toBe("reject");
+  });
+
+  test("matches bare strings as whole words", () => {
+    const config = withTitles({ include: [{ name: "sre", match: "sre" }] });
+
+    expect(matchTitleRule("SRE II", config).bucket).toBe("include");
+    expect(matchTitleRule("Measurement Analyst", config).bucket).toBe(
+      "reject",
+    );
+  });
+
+  test("supports contains and regex matchers", () => {
+    const config = withTitles({
+      include: [
+        { name: "front-end", match: { contains: "front-end" } },
+        { name: "dev", match: { regex: "\\bdev(ops)?\\b" } },
+      ],
+    });
+
+    expect(matchTitleRule("Front-Endish Person", config).rule).toBe(
+      "include:front-end",
+    );
+    expect(matchTitleRule("DevOps Specialist", config).rule).toBe(
+      "include:dev",
+    );
+    expect(matchTitleRule("Developer", config).rule).toBeNull();
+  });
+
+  test("combines matchers with all, any and not", () => {
+    const config = withTitles({
+      reject: [
+        {
+          name: "non-software engineer",
+          match: {
+            all: [
+              "engineer",
+              { any: ["mechanical", "civil"] },
+              { not: "software" },
+            ],
+          },
+        },
+      ],
+      includePatterns: ["engineer"],
+    });
+
+    expect(matchTitleRule("Mechanical Engineer", config).bucket).toBe(
+      "reject",
+    );
+    expect(
+      matchTitleRule("Software Engineer, Civil Infrastructure", config).bucket,
+    ).toBe("include");
+  });
+
+  test("never matches a rule with an invalid regex", () => {
+    const config = withTitles({
+      include: [{ name: "broken", match: { regex: "(" } }],
+      maybe: [{ name: "fallback", match: "developer" }],
+    });
+
+    expect(matchTitleRule("Developer", config).rule).toBe("maybe:fallback");
+  });
+
+  test("classifies titles with the shipped title files", () => {
+    expect(matchTitleRule("Software Developer", baseConfig).bucket).toBe(
+      "include",
+    );
+    expect(matchTitleRule("Senior Software Engineer", baseConfig).bucket).toBe(
+      "reject",
+    );
+    expect(matchTitleRule("Support Engineer", baseConfig).bucket).toBe(
+      "maybe",
+    );
+  });
+});
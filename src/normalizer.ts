@@ -1,106 +1,656 @@
+import { logger } from "./logger";
 import type {
   RawJob,
   CanonicalJob,
   TitleBucket,
   WorkMode,
   LocationClassification,
+  JobLocation,
   TimestampConfidence,
+  SalaryInfo,
+  SalaryPeriod,
+  SeniorityLevel,
+  LanguageRequirement,
+  WorkAuthorization,
+  JobSkill,
+  TitleClassification,
 } from "./types";
-import type { AppConfig } from "./config";
+import type {
+  AppConfig,
+  GazetteerConfig,
+  LocationConfig,
+  SkillDefinition,
+  SkillsConfig,
+  TitleConfig,
+  TitleMatcher,
+} from "./config";
 
 // Title classification
+// Plain patterns and rules from the three title files are ranked by priority
+// (file order breaks ties); the first match decides the bucket and is
+// recorded on the job as "<bucket>:<rule name or pattern>".
+
+const TITLE_FILES: Array<{
+  bucket: TitleBucket;
+  priority: number;
+  select: (config: AppConfig) => TitleConfig;
+}> = [
+  { bucket: "reject", priority: 30, select: (c) => c.rejectTitles },
+  { bucket: "include", priority: 20, select: (c) => c.includeTitles },
+  { bucket: "maybe", priority: 10, select: (c) => c.maybeTitles },
+];
+
+interface CompiledTitleRule {
+  bucket: TitleBucket;
+  name: string;
+  priority: number;
+  test: (title: string) => boolean;
+}
+
 export function classifyTitle(title: string, config: AppConfig): TitleBucket {
-  const lower = title.toLowerCase();
+  return matchTitleRule(title, config).bucket;
+}
 
-  // Check reject patterns first (senior, staff, lead, etc.)
-  for (const pattern of config.rejectTitles.patterns) {
-    if (lower.includes(pattern.toLowerCase())) {
-      return "reject";
+export function matchTitleRule(
+  title: string,
+  config: AppConfig,
+): TitleClassification {
+  for (const rule of getTitleRules(config)) {
+    if (rule.test(title)) {
+      return { bucket: rule.bucket, rule: `${rule.bucket}:${rule.name}` };
     }
   }
 
-  // Check include patterns (software engineer, developer, etc.)
-  for (const pattern of config.includeTitles.patterns) {
-    if (lower.includes(pattern.toLowerCase())) {
-      return "include";
+  // If no pattern matches, reject (not a programming/engineering role)
+  return { bucket: "reject", rule: null };
+}
+
+const titleRuleCache = new WeakMap<AppConfig, CompiledTitleRule[]>();
+
+function getTitleRules(config: AppConfig): CompiledTitleRule[] {
+  const cached = titleRuleCache.get(config);
+  if (cached) return cached;
+
+  const rules: CompiledTitleRule[] = [];
+  for (const file of TITLE_FILES) {
+    const titleConfig = file.select(config);
+    for (const pattern of titleConfig.patterns) {
+      const lower = pattern.toLowerCase();
+      rules.push({
+        bucket: file.bucket,
+        name: pattern,
+        priority: file.priority,
+        test: (title) => title.toLowerCase().includes(lower),
+      });
+    }
+    for (const rule of titleConfig.rules ?? []) {
+      rules.push({
+        bucket: file.bucket,
+        name: rule.name,
+        priority: rule.priority ?? file.priority,
+        test: compileTitleMatcher(rule.match, rule.name),
+      });
     }
   }
 
-  // Check maybe/ambiguous patterns
-  for (const pattern of config.maybeTitles.patterns) {
-    if (lower.includes(pattern.toLowerCase())) {
-      return "maybe";
+  rules.sort((a, b) => b.priority - a.priority);
+  titleRuleCache.set(config, rules);
+  return rules;
+}
+
+function compileTitleMatcher(
+  matcher: TitleMatcher,
+  ruleName: string,
+): (title: string) => boolean {
+  if (typeof matcher === "string") {
+    return wordMatcher(matcher);
+  }
+  if ("word" in matcher) {
+    return wordMatcher(matcher.word);
+  }
+  if ("contains" in matcher) {
+    const lower = matcher.contains.toLowerCase();
+    return (title) => title.toLowerCase().includes(lower);
+  }
+  if ("regex" in matcher) {
+    try {
+      const pattern = new RegExp(matcher.regex, matcher.flags ?? "i");
+      return (title) => pattern.test(title);
+    } catch (error) {
+      logger.warn(`Title rule "${ruleName}": invalid regex — ${error}`);
+      return () => false;
     }
   }
+  if ("all" in matcher) {
+    const tests = matcher.all.map((m) => compileTitleMatcher(m, ruleName));
+    return (title) => tests.every((test) => test(title));
+  }
+  if ("any" in matcher) {
+    const tests = matcher.any.map((m) => compileTitleMatcher(m, ruleName));
+    return (title) => tests.some((test) => test(title));
+  }
+  if ("not" in matcher) {
+    const test = compileTitleMatcher(matcher.not, ruleName);
+    return (title) => !test(title);
+  }
 
-  // If no pattern matches, reject (not a programming/engineering role)
-  return "reject";
+  logger.warn(
+    `Title rule "${ruleName}": unknown matcher ${JSON.stringify(matcher)}`,
+  );
+  return () => false;
+}
+
+function wordMatcher(term: string): (title: string) => boolean {
+  const pattern = new RegExp(`(?<!\\w)${escapePattern(term)}(?!\\w)`, "i");
+  return (title) => pattern.test(title);
+}
+
+// Seniority classification
+// Title tokens decide first (checked in this order, so "Senior Manager" is a
+// manager and "Intern, Staff Engineering" an intern); titles without one
+// fall back to the "N+ years of experience" asked for in the description.
+
+const SENIORITY_TITLE_PATTERNS: Array<[SeniorityLevel, RegExp]> = [
+  ["intern", /\b(intern|internship|co-?op|student|stagiaire)\b/i],
+  ["manager", /\b(manager|director|head of|vp|vice president|chief|cto)\b/i],
+  ["staff", /\b(staff|principal|distinguished|fellow|architect)\b/i],
+  ["senior", /\b(senior|sr|lead|iii|iv)\b/i],
+  [
+    "junior",
+    /\b(junior|jr|entry[- ]level|new grad(uate)?|graduate|associate)\b|\bi\b(?=\s*(?:[-–,(|]|$))/i,
+  ],
+  ["intermediate", /\b(intermediate|mid[- ]?level|ii)\b/i],
+];
+
+// "5+ years of experience", "3-5 yrs professional experience",
+// "minimum 4 years of hands-on experience", "3 ans d'expérience"
+const EXPERIENCE_YEARS_PATTERN =
+  /\b(\d{1,2})\s*(?:\+|plus)?\s*(?:(?:-|–|to)\s*\d{1,2}\s*\+?\s*)?(?:years?|yrs?|ans)\b(?:\s+of|\s+d['’])?(?:\s*[\w/+#.,-]+){0,4}?\s*(?:experience|expérience)/gi;
+
+export function classifySeniority(
+  title: string,
+  content: string,
+  config: AppConfig,
+): { level: SeniorityLevel | null; experienceYears: number | null } {
+  const experienceYears = extractExperienceYears(content);
+
+  for (const [level, pattern] of SENIORITY_TITLE_PATTERNS) {
+    if (pattern.test(title)) {
+      return { level, experienceYears };
+    }
+  }
+
+  if (experienceYears === null) {
+    return { level: null, experienceYears };
+  }
+
+  const thresholds = config.seniority.experienceYears;
+  const level: SeniorityLevel =
+    experienceYears >= thresholds.staff
+      ? "staff"
+      : experienceYears >= thresholds.senior
+        ? "senior"
+        : experienceYears >= thresholds.intermediate
+          ? "intermediate"
+          : "junior";
+  return { level, experienceYears };
+}
+
+// Highest minimum mentioned; "2+ years Python, 5+ years overall" means 5
+export function extractExperienceYears(content: string): number | null {
+  const text = content.replace(/<[^>]*>/g, " ").replace(/&nbsp;/g, " ");
+  let years: number | null = null;
+
+  for (const match of text.matchAll(EXPERIENCE_YEARS_PATTERN)) {
+    const value = Number.parseInt(match[1]!, 10);
+    if (value <= 20 && (years === null || value > years)) {
+      years = value;
+    }
+  }
+
+  return years;
+}
+
+// Language requirement
+// A posting written in French is "french"; otherwise each sentence naming
+// French or bilingualism counts as required unless it reads as an asset.
+// "English or French" accepts either language and is ignored. "Plus" only
+// counts as "a plus" / "est un plus": on its own it is everyday French
+// ("plus de 3 ans").
+
+const FRENCH_MENTION_PATTERN =
+  /\b(french|français|francais|bilingu(?:al|alism|e|isme))\b/i;
+const EXPLICIT_FRENCH_PATTERN = /\b(french|français|francais)\b/i;
+const OTHER_LANGUAGE_PATTERN =
+  /\b(spanish|mandarin|cantonese|punjabi|hindi|portuguese|german|japanese|korean|arabic|tagalog|italian)\b/i;
+const EITHER_LANGUAGE_PATTERN =
+  /\b(english|anglais)\s+(or|ou)\s+(french|français)|\b(french|français)\s+(or|ou)\s+(english|anglais)/i;
+const LANGUAGE_ASSET_PATTERN =
+  /\b(asset|atout|(?:an?|added|big) plus|(?:est|serait) un plus|preferred|nice[- ]to[- ]have|considered|bonus|avantage|souhaitable)\b/i;
+const FRENCH_STOPWORDS =
+  /\b(le|la|les|des|du|et|vous|nous|pour|avec|une|dans|est|sur|votre|notre)\b/gi;
+const ENGLISH_STOPWORDS =
+  /\b(the|and|you|we|for|with|our|your|is|are|to|of|in)\b/gi;
+
+export function detectLanguageRequirement(
+  title: string,
+  content: string,
+): LanguageRequirement {
+  const text = `${title}\n${content}`
+    .replace(/<[^>]*>/g, "\n")
+    .replace(/&nbsp;/g, " ");
+
+  const frenchWords = text.match(FRENCH_STOPWORDS)?.length ?? 0;
+  const englishWords = text.match(ENGLISH_STOPWORDS)?.length ?? 0;
+  if (frenchWords >= 15 && frenchWords > englishWords * 2) {
+    return "french";
+  }
+
+  let asset = false;
+  for (const sentence of text.split(/[.!?;\n•]+/)) {
+    if (!FRENCH_MENTION_PATTERN.test(sentence)) continue;
+    if (EITHER_LANGUAGE_PATTERN.test(sentence)) continue;
+    // "Bilingual (English/Spanish)" isn't about French
+    if (
+      !EXPLICIT_FRENCH_PATTERN.test(sentence) &&
+      OTHER_LANGUAGE_PATTERN.test(sentence)
+    ) {
+      continue;
+    }
+
+    if (LANGUAGE_ASSET_PATTERN.test(sentence)) {
+      asset = true;
+    } else {
+      return "bilingual";
+    }
+  }
+
+  return asset ? "french_asset" : "none";
+}
+
+// Work authorization
+// Checked strictest first: a clearance requirement outranks sponsorship
+// wording and "unable to sponsor" must not read as an offer. An explicit
+// offer outranks the boilerplate "must be authorized to work" sentence.
+
+// Ends in (?!\w), not \b: there is no word boundary after "sécurité"
+const CLEARANCE_PATTERN =
+  /\b(security clearance|secret clearance|top secret|ts\/sci|(enhanced )?reliability status|controlled goods|cote de (sécurité|fiabilité)|habilitation de sécurité)(?!\w)/i;
+const SPONSORSHIP_REFUSED_PATTERN =
+  /\b(no|without) (visa |immigration )?(sponsorship|lmia)\b|\b(unable to|cannot|can't|can not|won't|will not|do not|does not|don't|doesn't|are not able to|not able to)\s+(provide |offer |support )?(visa |immigration )?(sponsor(ship)?|lmia)\b|\bsponsorship (is )?not (available|offered|provided|possible)\b|\bnot eligible for (visa )?sponsorship\b|\bsans parrainage\b/i;
+const AUTHORIZATION_REQUIRED_PATTERN =
+  /\bmust (already )?be (legally )?(authorized|authorised|eligible|entitled) to work\b|\b(canadian )?citizens?( or|\/| and) permanent residents?( only)?\b|\bcitoyen(ne)? canadien(ne)? ou résident(e)? permanent(e)?\b/i;
+const SPONSORSHIP_OFFERED_PATTERN =
+  /\b((visa|immigration) sponsorship (is )?(available|offered|provided|possible)|sponsorship (is )?available|we (can |will |do )?sponsor|(visa|immigration) support( is)? (available|provided)|lmia (support|available|will be provided)|open to sponsor(ing)?)\b/i;
+
+export function classifyWorkAuthorization(
+  content: string,
+): WorkAuthorization {
+  const text = content.replace(/<[^>]*>/g, " ").replace(/&nbsp;/g, " ");
+
+  if (CLEARANCE_PATTERN.test(text)) return "clearance_required";
+  if (SPONSORSHIP_REFUSED_PATTERN.test(text)) return "no_sponsorship";
+  if (SPONSORSHIP_OFFERED_PATTERN.test(text)) return "sponsorship_offered";
+  if (AUTHORIZATION_REQUIRED_PATTERN.test(text)) return "no_sponsorship";
+  return "unknown";
+}
+
+// Skill extraction
+// Whole-word matching against config/skills.json. Boundaries treat . + # as
+// part of a token so "Java" doesn't match "JavaScript", "SQL" doesn't match
+// "PostgreSQL" and "C#" / ".NET" still match.
+
+interface SkillMatcher {
+  skill: SkillDefinition;
+  patterns: RegExp[];
+}
+
+const skillMatcherCache = new WeakMap<SkillsConfig, SkillMatcher[]>();
+
+export function extractSkills(
+  title: string,
+  content: string,
+  config: AppConfig,
+): JobSkill[] {
+  const text = `${title}\n${content}`
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ");
+
+  return getSkillMatchers(config.skills)
+    .filter(({ patterns }) => patterns.some((pattern) => pattern.test(text)))
+    .map(({ skill }) => ({ name: skill.name, category: skill.category }));
+}
+
+function getSkillMatchers(skills: SkillsConfig): SkillMatcher[] {
+  const cached = skillMatcherCache.get(skills);
+  if (cached) return cached;
+
+  const matchers = skills.skills.map((skill) => ({
+    skill,
+    patterns: [
+      skill.caseSensitive
+        ? // No trailing hyphen either: "Go-to-market" isn't Go
+          new RegExp(`(?<![\\w.+#-])${escapePattern(skill.name)}(?![\\w+#-])`)
+        : skillPattern(skill.name),
+      ...skill.aliases.map(skillPattern),
+    ],
+  }));
+  skillMatcherCache.set(skills, matchers);
+  return matchers;
+}
+
+function skillPattern(term: string): RegExp {
+  return new RegExp(`(?<![\\w.+#])${escapePattern(term)}(?![\\w+#])`, "i");
+}
+
+function escapePattern(term: string): string {
+  return term
+    .replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")
+    .replace(/\s+/g, "\\s+");
 }
 
 // Location classification
+
+// Connectors join multi-location postings with "; " (or "|" / newlines);
+// commas stay inside a segment since they separate city, province, country
+const LOCATION_SEPARATOR = /\s*(?:;|\||\n|\s\/\s)\s*/;
+
+// Each segment is classified on its own; the job takes the best-scoring one
 export function classifyLocation(
   locationRaw: string,
   config: AppConfig,
 ): LocationClassification {
-  const lower = locationRaw.toLowerCase();
+  const segments = [
+    ...new Set(
+      locationRaw
+        .split(LOCATION_SEPARATOR)
+        .map((segment) => segment.trim())
+        .filter((segment) => segment.length > 0),
+    ),
+  ];
+
+  const locations: JobLocation[] = [];
   const allLocations: string[] = [];
+  let best: JobLocation | null = null;
+
+  for (const segment of segments) {
+    const { location, matched } = classifyLocationSegment(segment, config);
+    locations.push(location);
+    allLocations.push(...matched);
+    if (!best || location.points > best.points) {
+      best = location;
+    }
+  }
+
+  // Prefer a remote region the user is eligible for when several are listed
+  const remote = locations.filter((l) => l.remoteRegion !== null);
+  const remoteRegion =
+    remote.find((l) => isRemoteEligible(l.remoteRegion, config.locations)) ??
+    remote[0];
+
+  return {
+    city: best?.city ?? null,
+    province: best?.province ?? null,
+    country: best?.country ?? locations.find((l) => l.country)?.country ?? null,
+    tier: best?.tier ?? null,
+    points: best?.points ?? 0,
+    remoteRegion: remoteRegion?.remoteRegion ?? null,
+    distanceKm: nearestDistance(locations),
+    allLocations: [...new Set(allLocations)],
+    locations,
+  };
+}
+
+// A null region means the posting did not restrict where remote work is done
+export function isRemoteEligible(
+  remoteRegion: string | null,
+  locations: LocationConfig,
+): boolean {
+  if (!remoteRegion) return true;
+
+  const home = locations.home.country;
+  return remoteRegion.split(",").some((key) => {
+    const countries = locations.remoteRegions[key]?.countries ?? [key];
+    return countries.includes("*") || countries.includes(home);
+  });
+}
+
+const REMOTE_SEGMENT = /\b(remote|anywhere|work from home|wfh|telecommute)\b/i;
+
+function classifyLocationSegment(
+  segment: string,
+  config: AppConfig,
+): { location: JobLocation; matched: string[] } {
+  const lower = segment.toLowerCase();
+  const { countries, region } = detectCountries(segment, config.locations);
+  const matched: string[] = [];
   let bestTier: string | null = null;
   let bestPoints = 0;
   let bestCity: string | null = null;
-  let bestProvince: string | null = null;
 
   // Check all tiers from highest to lowest
   for (const [tierKey, tier] of Object.entries(config.locations.tiers)) {
-    // Check main cities
-    for (const city of tier.cities) {
-      if (lower.includes(city.toLowerCase())) {
-        allLocations.push(city);
-        if (tier.points > bestPoints) {
-          bestTier = tierKey;
-          bestPoints = tier.points;
-          bestCity = city;
-          // Determine province
-          bestProvince = getProvinceFromTier(tierKey);
-        }
-      }
+    // "London, UK" is not London, Ontario
+    if (
+      tier.country &&
+      countries.length > 0 &&
+      !countries.includes(tier.country)
+    ) {
+      continue;
     }
 
-    // Check aliases
-    for (const alias of tier.aliases) {
-      if (lower.includes(alias.toLowerCase())) {
-        allLocations.push(alias);
-        if (tier.points > bestPoints) {
-          bestTier = tierKey;
-          bestPoints = tier.points;
-          bestCity = alias;
-          bestProvince = getProvinceFromTier(tierKey);
-        }
+    for (const name of [...tier.cities, ...tier.aliases]) {
+      if (!lower.includes(name.toLowerCase())) continue;
+
+      matched.push(name);
+      if (tier.points > bestPoints) {
+        bestTier = tierKey;
+        bestPoints = tier.points;
+        bestCity = name;
       }
     }
   }
 
+  const tier = bestTier ? config.locations.tiers[bestTier] : undefined;
+  const remoteRegion =
+    REMOTE_SEGMENT.test(segment) || tier?.remote
+      ? detectRemoteRegion(segment, countries, config.locations)
+      : null;
+
+  const home = config.scoring.location?.distance?.home;
+  const coordinates = home
+    ? findCoordinates(segment, countries, region, config.gazetteer)
+    : null;
+  const distanceKm =
+    home && coordinates
+      ? Math.round(haversineKm([home.lat, home.lon], coordinates) * 10) / 10
+      : null;
+
+  // "Remote - US only" earns no location points for someone in Canada
+  const eligible = isRemoteEligible(remoteRegion, config.locations);
+  const scoredTier = eligible ? tier : undefined;
+
   return {
-    city: bestCity,
-    province: bestProvince,
-    tier: bestTier,
-    points: bestPoints,
-    allLocations: [...new Set(allLocations)],
+    location: {
+      label: segment,
+      city: scoredTier ? bestCity : null,
+      province: region ?? scoredTier?.region ?? null,
+      country:
+        (countries.length === 1 ? countries[0] : undefined) ??
+        scoredTier?.country ??
+        null,
+      tier: scoredTier ? bestTier : null,
+      points: scoredTier ? bestPoints : 0,
+      remoteRegion,
+      distanceKm,
+    },
+    matched: [...new Set(matched)],
   };
 }
 
-function getProvinceFromTier(tierKey: string): string | null {
-  switch (tierKey) {
-    case "L1":
-    case "L2":
-    case "L3":
-      return "Ontario";
-    case "L4":
-      return "British Columbia";
-    case "L5":
-      return null; // Remote
-    default:
-      return null;
+// Country codes mentioned in a segment, by name, alias or a province/state
+// code such as "Seattle, WA"
+function detectCountries(
+  segment: string,
+  locations: LocationConfig,
+): { countries: string[]; region: string | null } {
+  const folded = foldAccents(segment);
+  const countries = new Set<string>();
+  let region: string | null = null;
+
+  for (const country of getCountryMatchers(locations)) {
+    if (country.patterns.some((pattern) => pattern.test(folded))) {
+      countries.add(country.code);
+    }
+    if (region) continue;
+
+    const match = country.regions.find((r) =>
+      r.patterns.some((pattern) => pattern.test(folded)),
+    );
+    if (match) {
+      region = match.code;
+      countries.add(country.code);
+    }
+  }
+
+  return { countries: [...countries], region };
+}
+
+// Explicit countries win over broader regions: "Anywhere in Canada" is CA
+function detectRemoteRegion(
+  segment: string,
+  countries: string[],
+  locations: LocationConfig,
+): string | null {
+  if (countries.length > 0) {
+    return countries.join(",");
+  }
+
+  const folded = foldAccents(segment);
+  for (const [key, region] of Object.entries(locations.remoteRegions)) {
+    if (region.aliases.some((alias) => aliasPattern(alias).test(folded))) {
+      return key;
+    }
   }
+  return null;
+}
+
+function nearestDistance(locations: JobLocation[]): number | null {
+  const distances = locations
+    .map((l) => l.distanceKm)
+    .filter((km): km is number => km !== null);
+  return distances.length > 0 ? Math.min(...distances) : null;
+}
+
+// Longest gazetteer name in the segment, within its detected country/region,
+// so "Richmond Hill" wins over "Richmond"
+function findCoordinates(
+  segment: string,
+  countries: string[],
+  region: string | null,
+  gazetteer: GazetteerConfig,
+): [number, number] | null {
+  const folded = foldAccents(segment);
+  const match = getGazetteerEntries(gazetteer).find(
+    (entry) =>
+      (countries.length === 0 || countries.includes(entry.country)) &&
+      (!region || entry.region === region) &&
+      entry.pattern.test(folded),
+  );
+  return match?.coordinates ?? null;
+}
+
+interface GazetteerEntry {
+  country: string;
+  region: string;
+  coordinates: [number, number];
+  pattern: RegExp;
+  length: number;
+}
+
+const gazetteerCache = new WeakMap<GazetteerConfig, GazetteerEntry[]>();
+
+function getGazetteerEntries(gazetteer: GazetteerConfig): GazetteerEntry[] {
+  const cached = gazetteerCache.get(gazetteer);
+  if (cached) return cached;
+
+  const entries: GazetteerEntry[] = [];
+  for (const [country, regions] of Object.entries(gazetteer.countries)) {
+    for (const [region, cities] of Object.entries(regions)) {
+      for (const [name, coordinates] of Object.entries(cities)) {
+        entries.push({
+          country,
+          region,
+          coordinates,
+          pattern: aliasPattern(name),
+          length: name.length,
+        });
+      }
+    }
+  }
+  entries.sort((a, b) => b.length - a.length);
+  gazetteerCache.set(gazetteer, entries);
+  return entries;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+function haversineKm(a: [number, number], b: [number, number]): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b[0] - a[0]);
+  const dLon = toRadians(b[1] - a[1]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a[0])) *
+      Math.cos(toRadians(b[0])) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+interface CountryMatcher {
+  code: string;
+  patterns: RegExp[];
+  regions: Array<{ code: string; patterns: RegExp[] }>;
+}
+
+const countryMatcherCache = new WeakMap<LocationConfig, CountryMatcher[]>();
+
+function getCountryMatchers(locations: LocationConfig): CountryMatcher[] {
+  const cached = countryMatcherCache.get(locations);
+  if (cached) return cached;
+
+  const matchers = Object.entries(locations.countries).map(
+    ([code, country]) => ({
+      code,
+      patterns: [country.name, ...country.aliases].map(aliasPattern),
+      regions: Object.entries(country.regions).map(([regionCode, name]) => ({
+        code: regionCode,
+        patterns: [
+          // Codes only count as a comma-separated part: "Toronto, ON"
+          new RegExp(`(?:^|[,(]\\s*)${regionCode}(?=\\s*(?:[,)]|$))`),
+          aliasPattern(name),
+        ],
+      })),
+    }),
+  );
+  countryMatcherCache.set(locations, matchers);
+  return matchers;
+}
+
+// All-caps aliases such as "US" or "NA" are case-sensitive
+function aliasPattern(alias: string): RegExp {
+  const term = foldAccents(alias);
+  return new RegExp(
+    `(?<![\\w.])${escapePattern(term)}(?!\\w)`,
+    term === term.toUpperCase() ? "" : "i",
+  );
+}
+
+function foldAccents(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
 }
 
 // Work mode classification
@@ -138,8 +688,8 @@ function hasNonRemoteLocation(locationRaw: string, config: AppConfig): boolean {
   const lower = locationRaw.toLowerCase();
   if (!lower.trim()) return false;
 
-  for (const [tierKey, tier] of Object.entries(config.locations.tiers)) {
-    if (tierKey === "L5") continue; // remote tier
+  for (const tier of Object.values(config.locations.tiers)) {
+    if (tier.remote) continue;
 
     for (const city of tier.cities) {
       if (lower.includes(city.toLowerCase())) return true;
@@ -160,6 +710,17 @@ export function normalizeCompanyName(name: string): string {
   return name.replace(LEGAL_SUFFIXES, "").replace(/\s+/g, " ").trim();
 }
 
+// Company registry key: "Shopify Inc.", "SHOPIFY" and the board slug
+// "shopify-careers" all become "shopify"
+export function companyKey(name: string): string {
+  return foldAccents(normalizeCompanyName(name))
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .replace(/-(careers?|jobs|hiring)$/, "");
+}
+
 // Timestamp handling
 export function normalizeTimestamp(postedAt: string | null): {
   isoString: string | null;
@@ -219,11 +780,27 @@ export function normalizeTimestamp(postedAt: string | null): {
 }
 
 // URL hash
-export function hashUrl(url: string): string {
-  const normalizedUrl = url
-    .toLowerCase()
-    .replace(/\/+$/, "")
-    .replace(/\?.*$/, "");
+// Sources whose postings are addressed only by a query parameter (HN
+// item?id=, gojobs JobID=, Taleo job=, SuccessFactors career_job_req_id=)
+// keep that parameter so they don't all collapse onto one hash. Every other
+// source drops the query string, so stored hashes stay valid.
+const ID_QUERY_PARAMS: Record<string, string> = {
+  hackernews: "id",
+  publicsector: "jobid",
+  taleo: "job",
+  successfactors: "career_job_req_id",
+};
+
+export function hashUrl(url: string, idParam?: string): string {
+  const idValue = idParam
+    ? url.match(new RegExp(`[?&]${idParam}=([^&#]+)`, "i"))?.[1]
+    : undefined;
+  const normalizedUrl =
+    url
+      .toLowerCase()
+      .replace(/\/+$/, "")
+      .replace(/\?.*$/, "") +
+    (idValue ? `?${idParam}=${idValue.toLowerCase()}` : "");
   const hasher = new Bun.CryptoHasher("sha256");
   hasher.update(normalizedUrl);
   return hasher.digest("hex");
@@ -243,34 +820,302 @@ export function fingerprintContent(content: string): string {
   return hasher.digest("hex");
 }
 
+// Salary extraction
+// Structured fields win over description text: JSON-LD baseSalary, Ashby
+// compensation components and SmartRecruiters compensation are read from
+// rawPayload; otherwise the first plausible amount in the content is used.
+
+const CURRENCY_SYMBOLS: Record<string, string | null> = {
+  ca$: "CAD",
+  c$: "CAD",
+  us$: "USD",
+  $: null, // Ambiguous — resolved by a trailing code if there is one
+  "€": "EUR",
+  "£": "GBP",
+  cad: "CAD",
+  usd: "USD",
+  eur: "EUR",
+  gbp: "GBP",
+};
+
+// "$90,000–$120,000", "90k-120k", "CA$45.50 to 55", "USD 100,000"
+const SALARY_PATTERN =
+  /(CA\$|C\$|US\$|\$|€|£|\b(?:CAD|USD|EUR|GBP)\s?)?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)(\s?k\b)?(?:\s*(?:-|–|—|to)\s*(?:CA\$|C\$|US\$|\$|€|£|\b(?:CAD|USD|EUR|GBP)\s?)?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)(\s?k\b)?)?/gi;
+const SALARY_SUFFIX_PATTERN =
+  /^\s*(CAD|USD|EUR|GBP)?\s*(?:(?:\/|per|an?)\s*(hour|hr|day|week|wk|month|mo|year|yr|annum)\b|(hourly|daily|weekly|monthly|annually|yearly)\b)?/i;
+
+// Words that make a bare "120k" a salary when they come shortly before it
+const SALARY_CONTEXT_PATTERN =
+  /\b(salary|compensation|pay|base|wages?|ote|salaire|rémunération)\b/i;
+const SALARY_CONTEXT_CHARS = 40;
+
+// Plausible ranges; anything outside is a year, headcount or benefit amount
+const SALARY_BOUNDS: Record<SalaryPeriod, [number, number]> = {
+  hour: [10, 500],
+  day: [80, 4000],
+  week: [400, 20000],
+  month: [1500, 80000],
+  year: [15000, 1000000],
+};
+
+export function extractSalary(raw: RawJob): SalaryInfo | null {
+  return salaryFromPayload(raw.rawPayload) ?? parseSalaryText(raw.content);
+}
+
+export function parseSalaryText(text: string): SalaryInfo | null {
+  const cleaned = text
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;|&#160;/g, " ")
+    .replace(/&ndash;|&#8211;/g, "–")
+    .replace(/&mdash;|&#8212;/g, "—")
+    .replace(/&amp;/g, "&");
+
+  for (const match of cleaned.matchAll(SALARY_PATTERN)) {
+    const [text, symbol, minText, minK, maxText, maxK] = match;
+    if (/^401\s?k$/i.test(text.trim())) continue;
+
+    const start = match.index ?? 0;
+    const suffix = cleaned
+      .slice(start + text.length)
+      .match(SALARY_SUFFIX_PATTERN);
+    const periodWord = suffix?.[2] ?? suffix?.[3];
+    const hasCurrency = !!symbol || !!suffix?.[1];
+    const hasK = !!minK || !!maxK;
+    // A bare number is only a salary when something says it's money; a
+    // lone "500k" is as likely users or customers, so it also needs a range
+    // or a salary word just before it
+    const salaryContext =
+      !!maxText ||
+      SALARY_CONTEXT_PATTERN.test(
+        cleaned.slice(Math.max(0, start - SALARY_CONTEXT_CHARS), start),
+      );
+    if (!hasCurrency && !periodWord && !(hasK && salaryContext)) continue;
+
+    // "90-120k": the k on the upper bound applies to both
+    const scale = (value: string, k: string | undefined) =>
+      Number.parseFloat(value.replace(/,/g, "")) * (k || maxK ? 1000 : 1);
+    let min = scale(minText!, minK);
+    let max = maxText ? scale(maxText, maxK) : min;
+    if (min > max) [min, max] = [max, min];
+
+    const period = periodWord
+      ? toSalaryPeriod(periodWord)
+      : max >= SALARY_BOUNDS.year[0]
+        ? "year"
+        : null;
+    if (!period || !withinSalaryBounds(min, max, period)) continue;
+
+    const symbolKey = symbol?.trim().toLowerCase();
+    return {
+      min,
+      max,
+      currency:
+        suffix?.[1]?.toUpperCase() ??
+        (symbolKey ? (CURRENCY_SYMBOLS[symbolKey] ?? null) : null),
+      period,
+    };
+  }
+
+  return null;
+}
+
+// Connector payloads are parsed as unknown JSON and narrowed field by field
+type PayloadNode = { [key: string]: unknown };
+
+function asNode(value: unknown): PayloadNode | null {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+    ? (value as PayloadNode)
+    : null;
+}
+
+function salaryFromPayload(rawPayload: string): SalaryInfo | null {
+  let payload: PayloadNode | null;
+  try {
+    payload = asNode(JSON.parse(rawPayload));
+  } catch {
+    return null;
+  }
+  if (!payload) return null;
+
+  // schema.org JobPosting: baseSalary.value is a number or QuantitativeValue
+  const base = asNode(payload.baseSalary);
+  if (base) {
+    const quantity = asNode(base.value);
+    const single = toNumber(quantity ? quantity.value : base.value);
+    const salary = buildSalary(
+      toNumber(quantity?.minValue) ?? single,
+      toNumber(quantity?.maxValue) ?? single,
+      base.currency,
+      quantity?.unitText ?? base.unitText ?? "year",
+    );
+    if (salary) return salary;
+  }
+
+  // Ashby with includeCompensation=true
+  const compensation = asNode(payload.compensation);
+  const ashby = compensation?.summaryComponents;
+  if (Array.isArray(ashby)) {
+    const component = ashby
+      .map(asNode)
+      .find(
+        (c) =>
+          !!c &&
+          /salary|hourly/i.test(String(c.compensationType ?? "")) &&
+          (c.minValue != null || c.maxValue != null),
+      );
+    const salary =
+      component &&
+      buildSalary(
+        toNumber(component.minValue),
+        toNumber(component.maxValue),
+        component.currencyCode,
+        component.interval ?? "year",
+      );
+    if (salary) return salary;
+  }
+  const summary =
+    compensation?.compensationTierSummary ?? payload.compensationTierSummary;
+  if (typeof summary === "string") {
+    const salary = parseSalaryText(summary);
+    if (salary) return salary;
+  }
+
+  // SmartRecruiters compensation block
+  if (compensation && ("min" in compensation || "max" in compensation)) {
+    return buildSalary(
+      toNumber(compensation.min),
+      toNumber(compensation.max),
+      compensation.currency,
+      compensation.period ?? "year",
+    );
+  }
+
+  return null;
+}
+
+function buildSalary(
+  min: number | null,
+  max: number | null,
+  currency: unknown,
+  periodText: unknown,
+): SalaryInfo | null {
+  const period = toSalaryPeriod(String(periodText));
+  const low = min ?? max;
+  const high = max ?? min;
+  if (low === null || high === null || !period) return null;
+  if (!withinSalaryBounds(low, high, period)) return null;
+
+  return {
+    min: Math.min(low, high),
+    max: Math.max(low, high),
+    currency:
+      typeof currency === "string" && currency.trim()
+        ? currency.trim().toUpperCase()
+        : null,
+    period,
+  };
+}
+
+// "1 YEAR", "PER_HOUR", "annually", "hr" → SalaryPeriod
+function toSalaryPeriod(text: string): SalaryPeriod | null {
+  const lower = text.toLowerCase();
+  if (/hour|\bhr\b/.test(lower)) return "hour";
+  if (/day|daily/.test(lower)) return "day";
+  if (/week|\bwk\b/.test(lower)) return "week";
+  if (/month|\bmo\b/.test(lower)) return "month";
+  if (/year|annum|annual|\byr\b/.test(lower)) return "year";
+  return null;
+}
+
+function withinSalaryBounds(
+  min: number,
+  max: number,
+  period: SalaryPeriod,
+): boolean {
+  const [low, high] = SALARY_BOUNDS[period];
+  return min >= low && max <= high;
+}
+
+const SALARY_PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  hour: 0, // Uses hoursPerYear
+  day: 260,
+  week: 52,
+  month: 12,
+  year: 1,
+};
+
+// Annual equivalent of a parsed range; null when no salary was found
+export function annualizeSalary(
+  job: Pick<CanonicalJob, "salaryMin" | "salaryMax" | "salaryPeriod">,
+  hoursPerYear: number,
+): { min: number; max: number } | null {
+  if (!job.salaryPeriod || job.salaryMax === null) return null;
+
+  const perYear =
+    job.salaryPeriod === "hour"
+      ? hoursPerYear
+      : SALARY_PERIODS_PER_YEAR[job.salaryPeriod];
+  return {
+    min: (job.salaryMin ?? job.salaryMax) * perYear,
+    max: job.salaryMax * perYear,
+  };
+}
+
+function toNumber(value: unknown): number | null {
+  const num =
+    typeof value === "string"
+      ? Number.parseFloat(value.replace(/[,$\s]/g, ""))
+      : typeof value === "number"
+        ? value
+        : NaN;
+  return Number.isFinite(num) ? num : null;
+}
+
 // Normalize raw job to canonical
 export function normalizeJob(raw: RawJob, config: AppConfig): CanonicalJob {
-  const titleBucket = classifyTitle(raw.title, config);
+  const { bucket: titleBucket, rule: titleRule } = matchTitleRule(
+    raw.title,
+    config,
+  );
   const location = classifyLocation(raw.locationRaw, config);
-  const workMode = classifyMode(raw.content, raw.locationRaw, config);
+  const workMode =
+    raw.workMode ?? classifyMode(raw.content, raw.locationRaw, config);
   const company = normalizeCompanyName(raw.company);
   const { isoString: postedAt, confidence } = normalizeTimestamp(raw.postedAt);
-  const urlHash = hashUrl(raw.url);
+  const urlHash = hashUrl(raw.url, ID_QUERY_PARAMS[raw.source]);
   const contentFp = fingerprintContent(raw.content);
+  const salary = extractSalary(raw);
+  const seniority = classifySeniority(raw.title, raw.content, config);
+  const languageRequirement = detectLanguageRequirement(raw.title, raw.content);
+  const workAuthorization = classifyWorkAuthorization(raw.content);
+  const skills = extractSkills(raw.title, raw.content, config);
 
   const now = new Date().toISOString();
 
   return {
     title: raw.title,
     company,
+    companyId: null, // Resolved against the company registry before dedup
     source: raw.source,
     sourceJobId: raw.sourceJobId,
     url: raw.url,
     city: location.city,
     province: location.province,
-    country: "Canada",
+    country: location.country,
     locationRaw: raw.locationRaw,
     locationTier: location.tier,
+    locations: location.locations,
+    remoteRegion: location.remoteRegion,
+    distanceKm: location.distanceKm,
     workMode,
     score: 0, // Will be set by scoring engine
     scoreFreshness: 0,
     scoreLocation: 0,
     scoreMode: 0,
+    scoreSalary: 0,
+    scoreSeniority: 0,
+    scoreWorkAuthorization: 0,
+    scoreBreakdown: [],
     scoreBand: "worthALook",
     postedAt,
     postedAtConfidence: confidence,
@@ -279,9 +1124,19 @@ export function normalizeJob(raw: RawJob, config: AppConfig): CanonicalJob {
     isReposted: false,
     originalPostDate: null,
     titleBucket,
+    titleRule,
     status: "active",
     isBackfill: false,
     urlHash,
     contentFingerprint: contentFp,
+    salaryMin: salary?.min ?? null,
+    salaryMax: salary?.max ?? null,
+    salaryCurrency: salary?.currency ?? null,
+    salaryPeriod: salary?.period ?? null,
+    seniority: seniority.level,
+    experienceYears: seniority.experienceYears,
+    languageRequirement,
+    workAuthorization,
+    skills,
   };
 }
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { classifyWorkAuthorization } from "./normalizer";
+
+describe("classifyWorkAuthorization", () => {
+  test.each([
+    "Visa sponsorship is available for this role.",
+    "We can sponsor work permits for the right candidate.",
+    "LMIA support will be provided.",
+  ])("%s → sponsorship_offered", (content) => {
+    expect(classifyWorkAuthorization(content)).toBe("sponsorship_offered");
+  });
+
+  test.each([
+    "We are unable to sponsor visas at this time.",
+    "This role does not offer visa sponsorship.",
+    "No sponsorship is available for this position.",
+    "Sponsorship is not available.",
+    "Candidates must be legally authorized to work in Canada.",
+    "Open to Canadian citizens or permanent residents only.",
+    "Poste offert sans parrainage.",
+  ])("%s → no_sponsorship", (content) => {
+    expect(classifyWorkAuthorization(content)).toBe("no_sponsorship");
+  });
+
+  test.each([
+    "Must be able to obtain a Secret clearance.",
+    "Enhanced Reliability Status is required.",
+    "Cote de fiabilité requise.",
+  ])("%s → clearance_required", (content) => {
+    expect(classifyWorkAuthorization(content)).toBe("clearance_required");
+  });
+
+  test("does not read a refusal to sponsor as an offer", () => {
+    expect(
+      classifyWorkAuthorization(
+        "Sponsorship is available for relocation costs, but we will not sponsor work visas.",
+      ),
+    ).toBe("no_sponsorship");
+  });
+
+  test("lets an explicit offer outrank the work-authorization sentence", () => {
+    expect(
+      classifyWorkAuthorization(
+        "Sponsorship available. Candidates must be legally authorized to work in Canada.",
+      ),
+    ).toBe("sponsorship_offered");
+  });
+
+  test("does not read every 'no … sponsorship' as a refusal", () => {
+    expect(
+      classifyWorkAuthorization("There is no need for sponsorship paperwork"),
+    ).toBe("unknown");
+  });
+
+  test("lets a clearance requirement outrank sponsorship wording", () => {
+    expect(
+      classifyWorkAuthorization(
+        "Visa sponsorship available. Top Secret clearance required.",
+      ),
+    ).toBe("clearance_required");
+  });
+
+  test("strips markup before matching", () => {
+    expect(
+      classifyWorkAuthorization("<p>Unable&nbsp;to <b>sponsor</b></p>"),
+    ).toBe("no_sponsorship");
+  });
+
+  test("returns unknown when the posting says nothing", () => {
+    expect(classifyWorkAuthorization("Build APIs with Go.")).toBe("unknown");
+  });
+});
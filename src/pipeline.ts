@@ -1,8 +1,19 @@
 import { logger } from "./logger";
-import { runConnectors, type RunConnectorOptions } from "./connectors";
+import {
+  runConnectors,
+  fetchJobDetail,
+  getCircuitState,
+  type RunConnectorOptions,
+} from "./connectors";
 import { normalizeJob } from "./normalizer";
-import { scoreJob } from "./scoring";
+import {
+  scoreJob,
+  blendFitScore,
+  isWithinSeniorityWindow,
+} from "./scoring";
 import { checkDuplicate, loadFuzzyCache, clearFuzzyCache } from "./dedup";
+import { resolveCompanyId, syncCompanyRegistry } from "./companies";
+import { getBlockReason } from "./companies/preferences";
 import { sendJobAlert, sendSystemAlert, initAlerts } from "./alerts";
 import { analyzeFit, getModalKeyCount, initKeyPool } from "./ai";
 import type { FitAnalysis } from "./ai";
@@ -11,21 +22,31 @@ import {
   finishRun,
   insertRawJob,
   insertCanonicalJob,
+  insertJobSkills,
+  insertJobLocations,
   updateSourceMetrics,
   updateConnectorCheckpoint,
   insertDuplicateLink,
   insertFitAnalysis,
+  updateBlendedScore,
   getConnectorCheckpoint,
   insertAlternateUrl,
+  getJobByUrlHash,
+  markJobRejected,
 } from "./db/operations";
 import type { AppConfig } from "./config";
-import type { PipelineRunResult, RawJob, CanonicalJob } from "./types";
+import type {
+  PipelineRunResult,
+  RawJob,
+  CanonicalJob,
+  ScoreResult,
+} from "./types";
 
 interface JobForAnalysis {
   canonicalId: number;
   canonical: CanonicalJob;
   rawContent: string;
-  score: { total: number; band: string };
+  score: ScoreResult;
 }
 
 function isOlderThanDays(dateString: string, maxAgeDays: number): boolean {
@@ -136,7 +157,12 @@ export async function runPipeline(
         result.source === "smartrecruiters" ||
         result.source === "bamboohr" ||
         result.source === "workday" ||
-        result.source === "icims";
+        result.source === "icims" ||
+        result.source === "recruitee" ||
+        result.source === "teamtailor" ||
+        result.source === "personio" ||
+        result.source === "taleo" ||
+        result.source === "successfactors";
       const isMissingBoard =
         !result.success &&
         isSupportedBoardSource &&
@@ -170,13 +196,16 @@ export async function runPipeline(
         }
       }
 
+      // A 304 is a healthy poll with nothing new — keep the last job count
       updateConnectorCheckpoint(
         `${result.source}/${result.company}`,
         isEffectiveSuccess,
-        result.jobs.length,
+        result.notModified ? null : result.jobs.length,
       );
 
-      if (!isEffectiveSuccess) {
+      // While the platform breaker is open it has already sent one alert for
+      // the whole platform, so hold back the per-company ones
+      if (!isEffectiveSuccess && getCircuitState(result.source) === "closed") {
         const checkpoint = getConnectorCheckpoint(
           `${result.source}/${result.company}`,
         );
@@ -195,6 +224,7 @@ export async function runPipeline(
     jobsFound = allRawJobs.length;
     logger.info(`Step 2/5: Processing ${jobsFound} raw jobs...`);
 
+    syncCompanyRegistry(config);
     loadFuzzyCache();
 
     // Initialize AI key pool early
@@ -204,17 +234,20 @@ export async function runPipeline(
     const alertsToSend: Array<{
       canonicalId: number;
       canonical: CanonicalJob;
-      score: { total: number; band: string };
     }> = [];
 
     for (const rawJob of allRawJobs) {
       try {
         const rawJobId = insertRawJob(rawJob, runId);
 
-        const canonical = normalizeJob(rawJob, config);
+        let job = rawJob;
+        let canonical = normalizeJob(job, config);
         canonical.isBackfill = isBackfill;
 
         if (canonical.titleBucket === "reject") {
+          logger.debug(
+            `Title rejected (${canonical.titleRule ?? "no rule matched"}): ${canonical.title}`,
+          );
           jobsRejected++;
           continue;
         }
@@ -234,6 +267,49 @@ export async function runPipeline(
           continue;
         }
 
+        // List-only sources: pull the full description before dedup/scoring
+        // so fingerprints and AI analysis see more than the title. Known
+        // URLs are dropped by dedup anyway, so skip them here.
+        const sourceConfig = config.sources.sources[job.source];
+        if (sourceConfig?.detailFetch && !getJobByUrlHash(canonical.urlHash)) {
+          const detail = await fetchJobDetail(
+            job,
+            canonical.urlHash,
+            sourceConfig,
+          );
+          if (detail) {
+            job = { ...job, content: detail };
+            canonical = normalizeJob(job, config);
+            canonical.isBackfill = isBackfill;
+          }
+        }
+
+        // Seniority, language and work-authorization rules run after the
+        // detail fetch so they see the full description (years of
+        // experience, language and sponsorship wording)
+        if (
+          config.seniority.action === "reject" &&
+          canonical.seniority &&
+          !isWithinSeniorityWindow(canonical.seniority, config)
+        ) {
+          jobsRejected++;
+          continue;
+        }
+
+        const languageAction =
+          config.language.rules[canonical.languageRequirement] ?? "none";
+        const workAuthRule =
+          config.workAuthorization.rules[canonical.workAuthorization];
+        if (languageAction === "reject" || workAuthRule?.action === "reject") {
+          jobsRejected++;
+          continue;
+        }
+        if (languageAction === "maybe" && canonical.titleBucket === "include") {
+          canonical.titleBucket = "maybe";
+          jobsMaybe++;
+        }
+
+        canonical.companyId = resolveCompanyId(canonical.company, config);
         const dedupResult = checkDuplicate(canonical);
 
         if (dedupResult.isDuplicate && dedupResult.existingJobId) {
@@ -262,9 +338,25 @@ export async function runPipeline(
         canonical.scoreFreshness = score.freshness;
         canonical.scoreLocation = score.location;
         canonical.scoreMode = score.mode;
+        canonical.scoreSalary = score.salary;
+        canonical.scoreSeniority = score.seniority;
+        canonical.scoreWorkAuthorization = score.workAuthorization;
+        canonical.scoreBreakdown = score.breakdown;
         canonical.scoreBand = score.band;
 
         const canonicalId = insertCanonicalJob(canonical, rawJobId);
+        insertJobSkills(canonicalId, canonical.skills);
+        insertJobLocations(canonicalId, canonical.locations);
+
+        // Blocked companies are stored as rejected, so later runs drop the
+        // URL as a duplicate and the job never reaches alerts or digests
+        const blockReason = getBlockReason(canonical, config);
+        if (blockReason) {
+          markJobRejected(canonicalId, blockReason);
+          jobsRejected++;
+          continue;
+        }
+
         jobsNew++;
         sourceStats[rawJob.source].jobsNew++;
 
@@ -279,26 +371,25 @@ export async function runPipeline(
         }
 
         // Collect jobs for AI analysis
-        if (score.total >= config.env.aiAnalysisMinScore && !isBackfill) {
+        const needsAnalysis =
+          score.total >= config.env.aiAnalysisMinScore && !isBackfill;
+        if (needsAnalysis) {
           jobsForAnalysis.push({
             canonicalId,
             canonical,
-            rawContent: rawJob.content,
-            score: { total: score.total, band: score.band },
+            rawContent: job.content,
+            score,
           });
         }
 
-        // Collect alerts to send (after AI analysis)
+        // Collect alert candidates (sent after AI analysis, which can move
+        // an analyzed job into or out of Top Priority)
         if (
-          score.band === "topPriority" &&
+          (score.band === "topPriority" || needsAnalysis) &&
           canonical.titleBucket === "include" &&
           !isBackfill
         ) {
-          alertsToSend.push({
-            canonicalId,
-            canonical,
-            score: { total: score.total, band: score.band },
-          });
+          alertsToSend.push({ canonicalId, canonical });
         }
       } catch (error) {
         const errMsg = `Failed to process job from ${rawJob.source}: ${error}`;
@@ -311,6 +402,7 @@ export async function runPipeline(
     clearFuzzyCache();
 
     // Run AI analysis in parallel
+    const analysisMap = new Map<number, FitAnalysis>();
     if (jobsForAnalysis.length > 0) {
       logger.info(
         `Step 2.5/5: Running AI analysis on ${jobsForAnalysis.length} jobs (concurrency: ${concurrency})...`,
@@ -329,56 +421,59 @@ export async function runPipeline(
         },
       );
 
-      // Store analysis results and count
-      const analysisMap = new Map<number, FitAnalysis | null>();
+      // Store analysis results and blend the fit score into the ranking
       for (const result of analysisResults) {
-        if (result.fitAnalysis) {
-          insertFitAnalysis(result.canonicalId, result.fitAnalysis);
-          jobsAnalyzed++;
-          analysisMap.set(result.canonicalId, result.fitAnalysis);
-        }
-      }
+        if (!result.fitAnalysis) continue;
 
-      // Send alerts with fit analysis
-      for (const alert of alertsToSend) {
-        const fitAnalysis = analysisMap.get(alert.canonicalId) ?? null;
-        await sendJobAlert(
-          {
-            id: alert.canonicalId,
-            title: alert.canonical.title,
-            company: alert.canonical.company,
-            city: alert.canonical.city,
-            workMode: alert.canonical.workMode,
-            score: alert.score.total,
-            scoreBand: alert.score.band,
-            url: alert.canonical.url,
-            source: alert.canonical.source,
-            postedAt: alert.canonical.postedAt,
-            firstSeenAt: alert.canonical.firstSeenAt,
-          },
-          fitAnalysis,
+        insertFitAnalysis(result.canonicalId, result.fitAnalysis);
+        jobsAnalyzed++;
+        analysisMap.set(result.canonicalId, result.fitAnalysis);
+
+        const blended = blendFitScore(
+          result.score,
+          result.fitAnalysis.fitScore,
+          config,
         );
-        instantAlertsSent++;
-      }
-    } else {
-      // Send alerts without AI analysis
-      for (const alert of alertsToSend) {
-        await sendJobAlert(
-          {
-            id: alert.canonicalId,
-            title: alert.canonical.title,
-            company: alert.canonical.company,
-            city: alert.canonical.city,
-            workMode: alert.canonical.workMode,
-            score: alert.score.total,
-            scoreBand: alert.score.band,
-            url: alert.canonical.url,
-            source: alert.canonical.source,
-            postedAt: alert.canonical.postedAt,
-            firstSeenAt: alert.canonical.firstSeenAt,
-          },
-          null,
+        if (!blended) continue;
+
+        updateBlendedScore(
+          result.canonicalId,
+          blended.total,
+          blended.band,
+          blended.breakdown,
         );
+        if (blended.band !== result.score.band) {
+          logger.debug(
+            `AI fit ${result.fitAnalysis.fitScore}: "${result.canonical.title}" ${result.score.band} → ${blended.band}`,
+          );
+        }
+        result.canonical.score = blended.total;
+        result.canonical.scoreBand = blended.band;
+        result.canonical.scoreBreakdown = blended.breakdown;
+      }
+    }
+
+    // Send alerts with fit analysis; sendJobAlert routes on the final band
+    for (const alert of alertsToSend) {
+      const sent = await sendJobAlert(
+        {
+          id: alert.canonicalId,
+          title: alert.canonical.title,
+          company: alert.canonical.company,
+          city: alert.canonical.city,
+          workMode: alert.canonical.workMode,
+          score: alert.canonical.score,
+          scoreBand: alert.canonical.scoreBand,
+          url: alert.canonical.url,
+          source: alert.canonical.source,
+          postedAt: alert.canonical.postedAt,
+          firstSeenAt: alert.canonical.firstSeenAt,
+          languageRequirement: alert.canonical.languageRequirement,
+          distanceKm: alert.canonical.distanceKm,
+        },
+        analysisMap.get(alert.canonicalId) ?? null,
+      );
+      if (sent) {
         instantAlertsSent++;
       }
     }
@@ -1,5 +1,18 @@
 import { getDatabaseStats } from "../db";
-import { getSourceAnalytics, getWeeklySummary } from "../db/operations";
+import {
+  getLatestPreferenceModel,
+  getSourceAnalytics,
+  getWeeklySummary,
+} from "../db/operations";
+import { rankPreferenceWeights, toModel } from "../learning";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
 
 function fmtPct(value: number): string {
   return `${(value * 100).toFixed(1)}%`;
@@ -42,6 +55,30 @@ export function formatWeeklyReport(): string {
     }
   }
 
+  if (summary.topCompanies.length > 0) {
+    lines.push("", `🏢 Top Companies (7d):`);
+    for (const company of summary.topCompanies.slice(0, 5)) {
+      lines.push(`  • ${escapeHtml(company.company)}: ${company.count}`);
+    }
+  }
+
+  const modelRow = getLatestPreferenceModel();
+  if (modelRow) {
+    const model = toModel(modelRow);
+    const ranked = rankPreferenceWeights(model);
+    const likes = ranked.filter((w) => w.weight > 0).slice(0, 5);
+    const dislikes = ranked.filter((w) => w.weight < 0).slice(-5).reverse();
+    lines.push(
+      "",
+      `🧠 Learned Preferences (${model.samples} taps, ${model.enabled ? "enabled" : "preview only"}):`,
+    );
+    for (const { feature, weight } of [...likes, ...dislikes]) {
+      lines.push(
+        `  • ${escapeHtml(feature)}: ${weight > 0 ? "+" : ""}${weight.toFixed(2)}`,
+      );
+    }
+  }
+
   lines.push(
     "",
     `Run <code>bun run status</code> for detailed breakdown.`,
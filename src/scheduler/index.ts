@@ -11,6 +11,8 @@ import { formatDigest } from "../alerts/digest";
 import { formatWeeklyReport } from "../reports/weekly";
 import { getLastSuccessfulRunTime, archiveOldJobs } from "../db/operations";
 import { runBoardDiscovery } from "../connectors/cse-discovery";
+import { trainPreferenceModel } from "../learning";
+import { rescoreActiveJobs } from "../scoring/rescore";
 import type { AppConfig } from "../config";
 
 let _config: AppConfig | null = null;
@@ -60,6 +62,8 @@ export function startScheduler(config: AppConfig): void {
   const CRON_MORNING_DIGEST = "30 8 * * *";
   const CRON_PRE_EVENING_INGEST = "30 17 * * *";
   const CRON_EVENING_DIGEST = "0 18 * * *";
+  const CRON_PREFERENCE_RETRAIN = "30 18 * * 0";
+  const CRON_RESCORE = "20 * * * *";
   const CRON_WEEKLY_REPORT = "0 19 * * 0";
   const CRON_ARCHIVE_CLEANUP = "0 3 * * 0";
 
@@ -271,6 +275,40 @@ export function startScheduler(config: AppConfig): void {
   );
   logger.info("  ✓ Evening digest: 6:00 PM ET");
 
+  // Retrain preferences on the week's Applied/Skip taps (before the report)
+  cron.schedule(
+    CRON_PREFERENCE_RETRAIN,
+    async () => {
+      logger.info("[CRON] Retraining preference model...");
+      try {
+        trainPreferenceModel(config);
+      } catch (error) {
+        logger.error(`[CRON] Preference retraining failed: ${error}`);
+      }
+    },
+    {
+      timezone: config.env.timezone || "America/Toronto",
+    },
+  );
+  logger.info("  ✓ Preference retraining: Sunday 6:30 PM ET");
+
+  // Re-score active jobs so freshness decays between ingests
+  cron.schedule(
+    CRON_RESCORE,
+    async () => {
+      logger.info("[CRON] Re-scoring active jobs...");
+      try {
+        rescoreActiveJobs(config);
+      } catch (error) {
+        logger.error(`[CRON] Re-scoring failed: ${error}`);
+      }
+    },
+    {
+      timezone: config.env.timezone || "America/Toronto",
+    },
+  );
+  logger.info("  ✓ Rescore: hourly at :20");
+
   // Weekly Report
   cron.schedule(
     CRON_WEEKLY_REPORT,
@@ -309,7 +347,7 @@ export function startScheduler(config: AppConfig): void {
   );
   logger.info("  ✓ Archive cleanup: Sunday 3:00 AM ET");
 
-  logger.info("Scheduler started with 9 jobs.");
+  logger.info("Scheduler started with 11 jobs.");
 
   checkAndRunCatchUp(config).catch((e) => {
     logger.error(`[SCHEDULER] Startup catch-up failed: ${e}`);
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { loadConfig, type AppConfig } from "../config";
+import { normalizeJob } from "../normalizer";
+import { blendFitScore, scoreJob } from "./index";
+
+const baseConfig = loadConfig();
+
+// Salary scoring on and Acme on the watchlist; the learned preference
+// factor is left out so no model is read from the database
+const config: AppConfig = {
+  ...baseConfig,
+  scoring: {
+    ...baseConfig.scoring,
+    weights: { ...baseConfig.scoring.weights, preference: 0 },
+    salary: { ...baseConfig.scoring.salary!, enabled: true },
+    aiFit: { ...baseConfig.scoring.aiFit!, enabled: true },
+  },
+  companyPreferences: {
+    ...baseConfig.companyPreferences,
+    companies: { acme: { action: "boost" } },
+  },
+};
+
+function boostedJob() {
+  const job = normalizeJob(
+    {
+      source: "greenhouse",
+      sourceJobId: "1",
+      title: "Software Developer",
+      company: "Acme",
+      url: "https://example.com/jobs/1",
+      locationRaw: "Toronto, ON (Hybrid)",
+      postedAt: new Date().toISOString(),
+      originalTimezone: null,
+      content: "Salary: CAD 130,000 - 150,000 per year. Hybrid, 3 days in office.",
+      rawPayload: "{}",
+    },
+    config,
+  );
+  return { ...job, companyId: "acme" };
+}
+
+describe("scoreJob", () => {
+  test("caps a job whose factors add up past 100", () => {
+    const result = scoreJob(boostedJob(), config);
+    const sum = result.breakdown.reduce((s, entry) => s + entry.points, 0);
+
+    expect(sum).toBeGreaterThan(100);
+    expect(result.total).toBe(100);
+    expect(result.band).toBe("topPriority");
+  });
+
+  test("keeps the blended score within 0-100", () => {
+    const preAi = scoreJob(boostedJob(), config);
+    const blended = blendFitScore({ ...preAi, total: 130 }, 100, config);
+
+    expect(blended?.total).toBe(100);
+  });
+});
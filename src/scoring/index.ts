@@ -1,27 +1,92 @@
 import type {
   CanonicalJob,
   ScoreResult,
+  ScoreFactorResult,
   ScoreBandKey,
   TimestampConfidence,
+  SeniorityLevel,
+  WorkAuthorization,
+  JobLocation,
 } from "../types";
-import type { AppConfig } from "../config";
+import type { AppConfig, DistanceBand } from "../config";
+import { annualizeSalary, isRemoteEligible } from "../normalizer";
+import { scorePreference } from "../learning";
+import { scoreCompanyPreference } from "../companies/preferences";
+
+// Scoring Factors
+
+// A factor returns raw points and a short human-readable reason, or null when
+// it does not apply (e.g. salary scoring is off). scoreJob multiplies the
+// points by the factor's weight in scoring.json; a missing weight counts as
+// 1 and a weight of 0 turns the factor off.
+export interface FactorScore {
+  points: number;
+  reason: string;
+}
+
+export interface ScoringFactor {
+  name: string;
+  score(job: CanonicalJob, config: AppConfig): FactorScore | null;
+}
+
+const factors = new Map<string, ScoringFactor>();
+
+// Later registrations with the same name replace the built-in factor
+export function registerScoringFactor(factor: ScoringFactor): void {
+  factors.set(factor.name, factor);
+}
+
+export function getScoringFactors(): ScoringFactor[] {
+  return [...factors.values()];
+}
 
 // Score a Single Job
 
+const MAX_SCORE = 100;
+
 export function scoreJob(job: CanonicalJob, config: AppConfig): ScoreResult {
-  const freshness = scoreFreshness(
-    job.postedAt,
-    job.firstSeenAt,
-    job.postedAtConfidence,
-    config,
-  );
-  const location = scoreLocation(job.locationTier, config);
-  const mode = scoreMode(job.workMode, config);
+  const breakdown: ScoreFactorResult[] = [];
+
+  for (const factor of factors.values()) {
+    const weight = config.scoring.weights[factor.name] ?? 1;
+    if (weight === 0) continue;
+
+    const result = factor.score(job, config);
+    if (!result) continue;
+
+    breakdown.push({
+      factor: factor.name,
+      points: Math.round(result.points * weight),
+      reason: result.reason,
+    });
+  }
 
-  const total = freshness + location + mode;
+  const total = clampScore(
+    breakdown.reduce((sum, entry) => sum + entry.points, 0),
+  );
   const band = determineBand(total, config);
 
-  return { total, freshness, location, mode, band };
+  return {
+    total,
+    freshness: factorPoints(breakdown, "freshness"),
+    location: factorPoints(breakdown, "location"),
+    mode: factorPoints(breakdown, "mode"),
+    salary: factorPoints(breakdown, "salary"),
+    seniority: factorPoints(breakdown, "seniority"),
+    workAuthorization: factorPoints(breakdown, "workAuthorization"),
+    band,
+    breakdown,
+  };
+}
+
+// Boosts and learned preferences can push the sum past 100, but the score
+// bands (and the /api/jobs band filter) only cover 0-100
+function clampScore(points: number): number {
+  return Math.min(MAX_SCORE, Math.max(0, points));
+}
+
+function factorPoints(breakdown: ScoreFactorResult[], name: string): number {
+  return breakdown.find((entry) => entry.factor === name)?.points ?? 0;
 }
 
 // Freshness Scoring
@@ -31,7 +96,7 @@ export function scoreFreshness(
   firstSeenAt: string,
   confidence: TimestampConfidence,
   config: AppConfig,
-): number {
+): FactorScore {
   // Use postedAt if available, else fall back to firstSeenAt
   const referenceTime = postedAt ?? firstSeenAt;
   const refDate = new Date(referenceTime);
@@ -45,6 +110,7 @@ export function scoreFreshness(
   }
 
   let points = 0;
+  let age = "";
 
   // Sort brackets: non-null ascending, null (fallback) last
   const sorted = [...config.scoring.freshness.brackets].sort((a, b) => {
@@ -53,41 +119,300 @@ export function scoreFreshness(
     return a.maxHours - b.maxHours;
   });
 
+  // The reason names the bracket rather than the exact age, so it only
+  // changes when the points do
+  let previousMax: number | null = null;
   for (const bracket of sorted) {
     if (bracket.maxHours === null || hoursAgo <= bracket.maxHours) {
       points = bracket.points;
+      age =
+        bracket.maxHours !== null
+          ? `within ${formatAge(bracket.maxHours)}`
+          : `over ${formatAge(previousMax ?? 0)} ago`;
       break;
     }
+    previousMax = bracket.maxHours;
   }
 
+  const seen = postedAt ? "posted" : "first seen";
+  let reason = `${seen} ${age}`;
+
   // Apply low-confidence cap per FinalStrategy.md line 192-193
   if (
     confidence === "low" &&
     points > config.scoring.freshness.lowConfidenceCap
   ) {
     points = config.scoring.freshness.lowConfidenceCap;
+    reason += " (unconfirmed date, capped)";
   }
 
-  return points;
+  return { points, reason };
+}
+
+function formatAge(hours: number): string {
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
 }
 
+registerScoringFactor({
+  name: "freshness",
+  score: (job, config) =>
+    scoreFreshness(
+      job.postedAt,
+      job.firstSeenAt,
+      job.postedAtConfidence,
+      config,
+    ),
+});
+
 // Location Scoring
 
 export function scoreLocation(
   locationTier: string | null,
   config: AppConfig,
-): number {
-  if (!locationTier) return 0;
+): FactorScore {
+  const tier = locationTier ? config.locations.tiers[locationTier] : undefined;
+  if (!tier) {
+    return { points: 0, reason: "outside location tiers" };
+  }
+  return { points: tier.points, reason: tier.label };
+}
+
+// Alternative to tier points: the best-scoring location, where locations with
+// gazetteer coordinates use the distance bands and the rest keep tier points
+export function scoreLocationByDistance(
+  locations: JobLocation[],
+  config: AppConfig,
+): FactorScore {
+  const distance = config.scoring.location?.distance;
+  let best: FactorScore = { points: 0, reason: "outside location tiers" };
+
+  for (const location of locations) {
+    const result =
+      location.distanceKm !== null
+        ? {
+            points: scoreDistance(location.distanceKm, distance?.bands ?? []),
+            reason: `${location.city ?? location.label}, ${Math.round(location.distanceKm)} km from ${distance?.home.label ?? "home"}`,
+          }
+        : scoreLocation(location.tier, config);
+    if (result.points > best.points) {
+      best = result;
+    }
+  }
 
-  const tier = config.locations.tiers[locationTier];
-  return tier?.points ?? 0;
+  return best;
 }
 
+function scoreDistance(distanceKm: number, bands: DistanceBand[]): number {
+  const band = bands.find((b) => b.maxKm === null || distanceKm <= b.maxKm);
+  return band?.points ?? 0;
+}
+
+registerScoringFactor({
+  name: "location",
+  score: (job, config) => {
+    if (config.scoring.location?.method === "distance") {
+      return scoreLocationByDistance(job.locations, config);
+    }
+    const result = scoreLocation(job.locationTier, config);
+    return job.city && result.points > 0
+      ? { ...result, reason: `${job.city} — ${result.reason}` }
+      : result;
+  },
+});
+
 // Mode Scoring
 
-export function scoreMode(workMode: string, config: AppConfig): number {
+export function scoreMode(
+  workMode: string,
+  config: AppConfig,
+  remoteEligible: boolean = true,
+): FactorScore {
   const modeEntry = config.modes.modes[workMode];
-  return modeEntry?.points ?? config.modes.modes.unknown?.points ?? 8;
+  if (workMode === "remote" && !remoteEligible) {
+    return {
+      points: modeEntry?.ineligiblePoints ?? 0,
+      reason: "remote, but not open to your region",
+    };
+  }
+  return {
+    points: modeEntry?.points ?? config.modes.modes.unknown?.points ?? 8,
+    reason: workMode === "unknown" ? "work mode not stated" : workMode,
+  };
+}
+
+registerScoringFactor({
+  name: "mode",
+  score: (job, config) =>
+    scoreMode(
+      job.workMode,
+      config,
+      isRemoteEligible(job.remoteRegion, config.locations),
+    ),
+});
+
+// Salary Scoring
+
+export function scoreSalary(
+  job: CanonicalJob,
+  config: AppConfig,
+): FactorScore | null {
+  const salary = config.scoring.salary;
+  if (!salary?.enabled) return null;
+
+  const annual = annualizeSalary(job, salary.hoursPerYear);
+  if (!annual) {
+    return { points: salary.unknownPoints, reason: "no salary listed" };
+  }
+  if (job.salaryCurrency !== null && job.salaryCurrency !== salary.currency) {
+    return {
+      points: salary.unknownPoints,
+      reason: `salary in ${job.salaryCurrency}`,
+    };
+  }
+
+  const range = formatAnnualRange(annual.min, annual.max);
+
+  if (annual.max < salary.targetMin) {
+    return {
+      points: salary.belowTargetPoints,
+      reason: `${range}, below target`,
+    };
+  }
+  if (annual.min >= salary.targetMax) {
+    return {
+      points: salary.aboveTargetPoints,
+      reason: `${range}, above target`,
+    };
+  }
+  return { points: salary.inTargetPoints, reason: `${range}, within target` };
+}
+
+function formatAnnualRange(min: number, max: number): string {
+  const thousands = (amount: number) => `${Math.round(amount / 1000)}k`;
+  return min === max
+    ? `${thousands(max)}/yr`
+    : `${thousands(min)}–${thousands(max)}/yr`;
+}
+
+registerScoringFactor({ name: "salary", score: scoreSalary });
+
+// Seniority Scoring
+
+const SENIORITY_ORDER: SeniorityLevel[] = [
+  "intern",
+  "junior",
+  "intermediate",
+  "senior",
+  "staff",
+  "manager",
+];
+
+export function isWithinSeniorityWindow(
+  level: SeniorityLevel,
+  config: AppConfig,
+): boolean {
+  const rank = SENIORITY_ORDER.indexOf(level);
+  return (
+    rank >= SENIORITY_ORDER.indexOf(config.seniority.window.min) &&
+    rank <= SENIORITY_ORDER.indexOf(config.seniority.window.max)
+  );
+}
+
+// Only the "score" action adds points; "reject" is applied in the pipeline
+export function scoreSeniority(
+  level: SeniorityLevel | null,
+  config: AppConfig,
+): FactorScore | null {
+  if (config.seniority.action !== "score") return null;
+  if (!level) {
+    return {
+      points: config.seniority.unknownPoints,
+      reason: "seniority not stated",
+    };
+  }
+
+  const { min, max } = config.seniority.window;
+  return isWithinSeniorityWindow(level, config)
+    ? {
+        points: config.seniority.inWindowPoints,
+        reason: `${level}, within ${min}–${max}`,
+      }
+    : {
+        points: config.seniority.outOfWindowPoints,
+        reason: `${level}, outside ${min}–${max}`,
+      };
+}
+
+registerScoringFactor({
+  name: "seniority",
+  score: (job, config) => scoreSeniority(job.seniority, config),
+});
+
+// Work Authorization Scoring
+
+export function scoreWorkAuthorization(
+  workAuthorization: WorkAuthorization,
+  config: AppConfig,
+): FactorScore | null {
+  const rule = config.workAuthorization.rules[workAuthorization];
+  if (rule?.action !== "score") return null;
+  return {
+    points: rule.points ?? 0,
+    reason: workAuthorization.replace(/_/g, " "),
+  };
+}
+
+registerScoringFactor({
+  name: "workAuthorization",
+  score: (job, config) =>
+    scoreWorkAuthorization(job.workAuthorization, config),
+});
+
+// Preference Scoring
+
+// Learned from Applied/Skip feedback; applies only once a model is enabled
+registerScoringFactor({ name: "preference", score: scorePreference });
+
+// Company Preference Scoring
+
+// Watchlist boosts and penalties from company-preferences.json; blocked
+// companies are rejected by the pipeline instead
+registerScoringFactor({ name: "company", score: scoreCompanyPreference });
+
+// AI Fit Blending
+
+export type BlendedScore = Pick<ScoreResult, "total" | "band" | "breakdown">;
+
+// Runs after analyzeFit on the rule-based (pre-AI) score. The change is
+// recorded as an "aiFit" breakdown entry so the reasons still add up.
+export function blendFitScore(
+  preAi: { total: number; breakdown: ScoreFactorResult[] },
+  fitScore: number,
+  config: AppConfig,
+): BlendedScore | null {
+  const aiFit = config.scoring.aiFit;
+  if (!aiFit?.enabled) return null;
+
+  let total = Math.round(
+    (1 - aiFit.weight) * preAi.total + aiFit.weight * fitScore,
+  );
+  let reason = `AI fit ${fitScore}/100`;
+
+  if (fitScore < aiFit.vetoBelow) {
+    const cap = config.scoring.bands[aiFit.vetoBand]?.maxScore ?? total;
+    total = Math.min(total, cap);
+    reason += `, under veto ${aiFit.vetoBelow}`;
+  }
+
+  total = clampScore(total);
+  return {
+    total,
+    band: determineBand(total, config),
+    breakdown: [
+      ...preAi.breakdown.filter((entry) => entry.factor !== "aiFit"),
+      { factor: "aiFit", points: total - preAi.total, reason },
+    ],
+  };
 }
 
 // Determine Score Band
@@ -0,0 +1,159 @@
+import { logger } from "../logger";
+import { blendFitScore, scoreJob } from "./index";
+import { getBlockReason } from "../companies/preferences";
+import {
+  getJobLocations,
+  getJobSkills,
+  getJobsForRescore,
+  markJobRejected,
+  updateJobScore,
+  type RescoreJobRow,
+} from "../db/operations";
+import type { AppConfig } from "../config";
+import type { CanonicalJob, ScoreBandKey } from "../types";
+
+// Recomputes score and band for active jobs from their stored fields, so
+// freshness decays as jobs age and scoring.json changes reach old jobs.
+// Jobs with an AI fit analysis are blended again, jobs from companies blocked
+// since they were stored are rejected, and dry runs write nothing.
+
+export interface RescoreChange {
+  id: number;
+  title: string;
+  company: string;
+  oldScore: number;
+  newScore: number;
+  oldBand: ScoreBandKey;
+  newBand: ScoreBandKey;
+}
+
+export interface RescoreResult {
+  checked: number;
+  updated: number;
+  rejected: number;
+  bandChanges: RescoreChange[];
+}
+
+export function rescoreActiveJobs(
+  config: AppConfig,
+  options: { dryRun?: boolean } = {},
+): RescoreResult {
+  const rows = getJobsForRescore();
+  const skillCategories = new Map(
+    config.skills.skills.map((skill) => [skill.name, skill.category]),
+  );
+  const bandChanges: RescoreChange[] = [];
+  let updated = 0;
+  let rejected = 0;
+
+  for (const row of rows) {
+    const job = toCanonicalJob(row, skillCategories);
+    const blockReason = getBlockReason(job, config);
+    if (blockReason) {
+      rejected++;
+      if (!options.dryRun) markJobRejected(row.id, blockReason);
+      continue;
+    }
+
+    const preAi = scoreJob(job, config);
+    const final =
+      row.fit_score !== null
+        ? (blendFitScore(preAi, row.fit_score, config) ?? preAi)
+        : preAi;
+
+    if (
+      final.total === row.score &&
+      final.band === row.score_band &&
+      JSON.stringify(final.breakdown) === row.score_breakdown
+    ) {
+      continue;
+    }
+
+    updated++;
+    if (final.band !== row.score_band) {
+      bandChanges.push({
+        id: row.id,
+        title: row.title,
+        company: row.company,
+        oldScore: row.score,
+        newScore: final.total,
+        oldBand: row.score_band,
+        newBand: final.band,
+      });
+    }
+    if (!options.dryRun) {
+      updateJobScore(row.id, preAi, final);
+    }
+  }
+
+  logger.info(
+    `Rescore${options.dryRun ? " (dry run)" : ""}: ${rows.length} active jobs, ${updated} ${options.dryRun ? "would change" : "updated"}, ${bandChanges.length} band changes, ${rejected} ${options.dryRun ? "would be " : ""}rejected (blocked companies)`,
+  );
+
+  return { checked: rows.length, updated, rejected, bandChanges };
+}
+
+function toCanonicalJob(
+  row: RescoreJobRow,
+  skillCategories: Map<string, string>,
+): CanonicalJob {
+  return {
+    title: row.title,
+    company: row.company,
+    companyId: row.company_id,
+    source: row.source,
+    sourceJobId: row.source_job_id,
+    url: row.url,
+    city: row.city,
+    province: row.province,
+    country: row.country,
+    locationRaw: row.location_raw,
+    locationTier: row.location_tier,
+    locations: getJobLocations(row.id).map((location) => ({
+      label: location.location_raw,
+      city: location.city,
+      province: location.province,
+      country: location.country,
+      tier: location.tier,
+      points: location.points,
+      remoteRegion: location.remote_region,
+      distanceKm: location.distance_km,
+    })),
+    remoteRegion: row.remote_region,
+    distanceKm: row.distance_km,
+    workMode: row.work_mode,
+    score: row.score,
+    scoreFreshness: 0,
+    scoreLocation: 0,
+    scoreMode: 0,
+    scoreSalary: 0,
+    scoreSeniority: 0,
+    scoreWorkAuthorization: 0,
+    scoreBreakdown: [],
+    scoreBand: row.score_band,
+    postedAt: row.posted_at,
+    postedAtConfidence: row.posted_at_confidence,
+    originalTimezone: row.original_timezone,
+    firstSeenAt: row.first_seen_at,
+    isReposted: row.is_reposted === 1,
+    originalPostDate: row.original_post_date,
+    titleBucket: row.title_bucket,
+    titleRule: row.title_rule,
+    status: row.status,
+    isBackfill: row.is_backfill === 1,
+    urlHash: row.url_hash,
+    contentFingerprint: row.content_fingerprint ?? "",
+    salaryMin: row.salary_min,
+    salaryMax: row.salary_max,
+    salaryCurrency: row.salary_currency,
+    salaryPeriod: row.salary_period,
+    seniority: row.seniority,
+    experienceYears: row.experience_years,
+    languageRequirement: row.language_requirement ?? "none",
+    workAuthorization: row.work_authorization ?? "unknown",
+    skills: getJobSkills(row.id).map((name) => ({
+      name,
+      category: skillCategories.get(name) ?? "other",
+    })),
+  };
+}
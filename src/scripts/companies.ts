@@ -0,0 +1,105 @@
+/**
+ * Company registry CLI.
+ *   bun run companies list [filter]
+ *   bun run companies merge <alias or company> <into company>
+ * A merge moves every alias and job of the first company onto the second,
+ * and is written back to config/company-aliases.json so the next config
+ * sync does not undo it.
+ */
+
+import { join } from "path";
+import { readFileSync, writeFileSync } from "fs";
+import { logger } from "../logger";
+import { initializeDatabase } from "../db";
+import { loadConfig, type CompanyAliasesConfig } from "../config";
+import { companyKey } from "../normalizer";
+import { syncCompanyRegistry } from "../companies";
+import {
+  getCompany,
+  getCompanyAlias,
+  listCompanies,
+  mergeCompanies,
+} from "../db/operations";
+
+const ALIASES_FILE = join(import.meta.dir, "../../config/company-aliases.json");
+
+const [command, ...args] = process.argv.slice(2);
+
+if (command !== "list" && !(command === "merge" && args.length === 2)) {
+  logger.error("Usage: bun run companies list [filter]");
+  logger.error("       bun run companies merge <alias> <company>");
+  logger.error('Example: bun run companies merge "shopify-careers" "Shopify"');
+  process.exit(1);
+}
+
+initializeDatabase();
+const config = loadConfig();
+syncCompanyRegistry(config);
+
+if (command === "list") {
+  const companies = listCompanies(args[0]);
+  logger.info(`🏢 ${companies.length} companies`);
+  for (const company of companies) {
+    logger.info(`${company.id} — ${company.name} (${company.jobCount} jobs)`);
+    for (const alias of company.aliases) {
+      logger.info(`    ↳ ${alias.alias} [${alias.origin}]`);
+    }
+  }
+} else {
+  const [aliasName, companyName] = args as [string, string];
+
+  const into = getCompanyAlias(companyKey(companyName));
+  if (!into) {
+    logger.error(
+      `Unknown company "${companyName}" — see bun run companies list`,
+    );
+    process.exit(1);
+  }
+
+  const fromKey = companyKey(aliasName);
+  const fromId = getCompanyAlias(fromKey)?.company_id ?? fromKey;
+  if (fromId === into.company_id) {
+    logger.info(`"${aliasName}" already resolves to ${into.company_id}`);
+    process.exit(0);
+  }
+
+  const moved = mergeCompanies(fromId, into.company_id);
+  saveMergeToConfig(aliasName, fromId, into.company_id);
+  logger.info(
+    `✅ Merged ${fromId} into ${into.company_id} (${moved} jobs moved)`,
+  );
+}
+
+function saveMergeToConfig(
+  aliasName: string,
+  fromId: string,
+  intoId: string,
+): void {
+  const data = JSON.parse(
+    readFileSync(ALIASES_FILE, "utf-8"),
+  ) as CompanyAliasesConfig;
+
+  const target = (data.companies[intoId] ??= {
+    name: getCompany(intoId)?.name ?? intoId,
+    aliases: [],
+  });
+
+  const merged = data.companies[fromId];
+  const additions = merged
+    ? [fromId, merged.name, ...merged.aliases, aliasName]
+    : [aliasName];
+  delete data.companies[fromId];
+
+  const known = new Set(
+    [intoId, target.name, ...target.aliases].map(companyKey),
+  );
+  for (const alias of additions) {
+    if (!known.has(companyKey(alias))) {
+      target.aliases.push(alias);
+      known.add(companyKey(alias));
+    }
+  }
+
+  writeFileSync(ALIASES_FILE, JSON.stringify(data, null, 2) + "\n");
+  logger.info(`💾 Saved to ${ALIASES_FILE}`);
+}
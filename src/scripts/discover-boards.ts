@@ -13,6 +13,13 @@ const ATS_PATTERNS = {
   bamboohr: /https?:\/\/jobs\.bamboohr\.com\/([a-zA-Z0-9-]+)/i,
   workday: /https?:\/\/([a-zA-Z0-9.-]+\.myworkdayjobs\.com\/[^\s"'<>]+)/i,
   icims: /https?:\/\/(careers\.icims\.com\/[^\s"'<>]+)/i,
+  recruitee: /https?:\/\/(?!www\.)([a-zA-Z0-9-]+)\.recruitee\.com/i,
+  teamtailor: /https?:\/\/(?!www\.|app\.)([a-zA-Z0-9-]+)\.teamtailor\.com/i,
+  personio: /https?:\/\/([a-zA-Z0-9-]+)\.jobs\.personio\.(?:de|com)/i,
+  taleo:
+    /https?:\/\/([a-zA-Z0-9-]+\.taleo\.net\/careersection\/[a-zA-Z0-9_-]+)/i,
+  successfactors:
+    /https?:\/\/(career\d*\.successfactors\.(?:com|eu)\/career\?company=[a-zA-Z0-9_-]+)/i,
 } as const;
 
 const DISCOVERY_QUERIES = [
@@ -25,6 +32,11 @@ const DISCOVERY_QUERIES = [
   "site:jobs.bamboohr.com software engineer canada",
   "site:myworkdayjobs.com software engineer canada",
   "site:careers.icims.com software engineer canada",
+  "site:recruitee.com software engineer canada",
+  "site:teamtailor.com software engineer canada",
+  "site:jobs.personio.de software engineer",
+  "site:taleo.net careersection software developer canada",
+  "site:successfactors.com career software developer canada",
   "site:boards.greenhouse.io backend developer toronto",
   "site:jobs.lever.co frontend developer toronto",
   "site:jobs.ashbyhq.com full stack developer canada",
@@ -75,7 +87,10 @@ async function run() {
           if (!match) continue;
 
           const boardSlug =
-            platform === "workday" || platform === "icims"
+            platform === "workday" ||
+            platform === "icims" ||
+            platform === "taleo" ||
+            platform === "successfactors"
               ? match[1]
               : match[1].toLowerCase();
 
@@ -95,7 +110,12 @@ async function run() {
               | "smartrecruiters"
               | "bamboohr"
               | "workday"
-              | "icims",
+              | "icims"
+              | "recruitee"
+              | "teamtailor"
+              | "personio"
+              | "taleo"
+              | "successfactors",
             boardUrl,
             boardSlug,
             companyGuess,
@@ -143,6 +163,15 @@ function normalizeBoardUrl(platform: string, slug: string): string {
   if (platform === "bamboohr") {
     return `https://jobs.bamboohr.com/${slug}`;
   }
+  if (platform === "recruitee") {
+    return `https://${slug}.recruitee.com`;
+  }
+  if (platform === "teamtailor") {
+    return `https://${slug}.teamtailor.com`;
+  }
+  if (platform === "personio") {
+    return `https://${slug}.jobs.personio.de`;
+  }
   return `https://${slug}`;
 }
 
@@ -102,6 +102,62 @@ if (config.sources.sources.icims?.enabled) {
   });
 }
 
+if (config.sources.sources.recruitee?.enabled) {
+  testEndpoints.push({
+    name: "Recruitee API",
+    urls: ["https://recruitee.com", "https://docs.recruitee.com/reference"],
+  });
+}
+
+if (config.sources.sources.teamtailor?.enabled) {
+  testEndpoints.push({
+    name: "Teamtailor Careers",
+    urls: ["https://www.teamtailor.com"],
+  });
+}
+
+if (config.sources.sources.personio?.enabled) {
+  testEndpoints.push({
+    name: "Personio Careers",
+    urls: ["https://www.personio.com"],
+  });
+}
+
+if (config.sources.sources.taleo?.enabled) {
+  testEndpoints.push({
+    name: "Oracle Taleo",
+    urls: ["https://www.oracle.com/human-capital-management/taleo/"],
+  });
+}
+
+if (config.sources.sources.successfactors?.enabled) {
+  testEndpoints.push({
+    name: "SAP SuccessFactors",
+    urls: ["https://www.sap.com/products/hcm.html"],
+  });
+}
+
+if (config.sources.sources.jobbank?.enabled) {
+  testEndpoints.push({
+    name: "Job Bank",
+    urls: ["https://www.jobbank.gc.ca"],
+  });
+}
+
+if (config.sources.sources.publicsector?.enabled) {
+  testEndpoints.push({
+    name: "Ontario Public Service",
+    urls: ["https://www.gojobs.gov.on.ca"],
+  });
+}
+
+if (config.sources.sources.hackernews?.enabled) {
+  testEndpoints.push({
+    name: "HN Algolia API",
+    urls: ["https://hn.algolia.com/api/v1/items/1"],
+  });
+}
+
 for (const endpoint of testEndpoints) {
   let reachable = false;
   let lastStatus = 0;
@@ -152,6 +208,15 @@ const sources = [
   "bamboohr",
   "workday",
   "icims",
+  "recruitee",
+  "teamtailor",
+  "personio",
+  "taleo",
+  "successfactors",
+  "jsonld",
+  "jobbank",
+  "publicsector",
+  "hackernews",
 ];
 for (const source of sources) {
   const companies = config.companies[source as keyof typeof config.companies];
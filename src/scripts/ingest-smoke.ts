@@ -48,6 +48,18 @@ function buildSmokeConfig(
       bamboohr: base.companies.bamboohr.slice(0, perSource),
       workday: base.companies.workday.slice(0, perSource),
       icims: base.companies.icims.slice(0, perSource),
+      recruitee: (base.companies.recruitee ?? []).slice(0, perSource),
+      teamtailor: (base.companies.teamtailor ?? []).slice(0, perSource),
+      personio: (base.companies.personio ?? []).slice(0, perSource),
+      taleo: (base.companies.taleo ?? []).slice(0, perSource),
+      successfactors: (base.companies.successfactors ?? []).slice(
+        0,
+        perSource,
+      ),
+      jsonld: (base.companies.jsonld ?? []).slice(0, perSource),
+      jobbank: (base.companies.jobbank ?? []).slice(0, perSource),
+      publicsector: (base.companies.publicsector ?? []).slice(0, perSource),
+      hackernews: (base.companies.hackernews ?? []).slice(0, perSource),
     },
   };
 }
@@ -0,0 +1,113 @@
+/**
+ * Preference learning CLI.
+ *   bun run preferences train          fit a model on applied/dismissed jobs
+ *   bun run preferences preview [N]    weights and changes for N recent jobs
+ *   bun run preferences enable <id>    score new jobs with that model
+ *   bun run preferences disable
+ */
+
+import { logger } from "../logger";
+import { initializeDatabase } from "../db";
+import { loadConfig } from "../config";
+import {
+  adjustForPreferences,
+  rankPreferenceWeights,
+  rowToFeatureInput,
+  toModel,
+  trainPreferenceModel,
+} from "../learning";
+import {
+  getEnabledPreferenceModelId,
+  getLatestPreferenceModel,
+  getPreferenceModel,
+  getRecentActiveJobs,
+  setPreferenceModelEnabled,
+} from "../db/operations";
+
+const TOP_WEIGHTS = 10;
+const DEFAULT_PREVIEW_JOBS = 15;
+
+const [command, arg] = process.argv.slice(2);
+
+if (!["train", "preview", "enable", "disable"].includes(command ?? "")) {
+  logger.error("Usage: bun run preferences <train|preview|enable|disable>");
+  logger.error("       bun run preferences preview [number of jobs]");
+  logger.error("       bun run preferences enable <model id>");
+  process.exit(1);
+}
+
+initializeDatabase();
+const config = loadConfig();
+
+if (command === "train") {
+  const model = trainPreferenceModel(config);
+  if (!model) process.exit(1);
+  logger.info(
+    `Run \`bun run preferences preview\` to inspect it, then \`bun run preferences enable ${model.id}\` to use it`,
+  );
+} else if (command === "preview") {
+  const row = getLatestPreferenceModel();
+  if (!row) {
+    logger.error("No model yet — run `bun run preferences train` first");
+    process.exit(1);
+  }
+
+  const model = toModel(row);
+  logger.info(
+    `🧠 Model #${model.id} (${model.trainedAt}): ${model.samples} jobs, ${model.positives} applied, training accuracy ${Math.round(model.accuracy * 100)}% — ${model.enabled ? "enabled" : "not enabled"}`,
+  );
+
+  const ranked = rankPreferenceWeights(model);
+  logger.info("Strongest preferences:");
+  for (const { feature, weight } of ranked.slice(0, TOP_WEIGHTS)) {
+    if (weight > 0) logger.info(`  +${weight.toFixed(2)}  ${feature}`);
+  }
+  logger.info("Strongest aversions:");
+  for (const { feature, weight } of ranked.slice(-TOP_WEIGHTS).reverse()) {
+    if (weight < 0) logger.info(`  ${weight.toFixed(2)}  ${feature}`);
+  }
+
+  const limit = arg ? parseInt(arg, 10) : DEFAULT_PREVIEW_JOBS;
+  logger.info(`Adjustments for the ${limit} most recent active jobs:`);
+  for (const job of getRecentActiveJobs(limit)) {
+    const { points, reason } = adjustForPreferences(
+      rowToFeatureInput(job),
+      model,
+      config,
+    );
+    const sign = points > 0 ? "+" : "";
+    logger.info(
+      `  ${`${sign}${points}`.padStart(4)}  ${job.title} @ ${job.company} (score ${job.score}) — ${reason}`,
+    );
+  }
+} else if (command === "enable") {
+  // Explicit id, so only a model that was previewed gets enabled
+  const id = arg ? parseInt(arg, 10) : NaN;
+  const row = Number.isNaN(id) ? null : getPreferenceModel(id);
+  if (!row) {
+    const latest = getLatestPreferenceModel();
+    logger.error(
+      !latest
+        ? "No model yet — run `bun run preferences train` first"
+        : Number.isNaN(id)
+          ? `Usage: bun run preferences enable <model id> (latest is #${latest.id})`
+          : `No model #${id} (latest is #${latest.id})`,
+    );
+    process.exit(1);
+  }
+  setPreferenceModelEnabled(row.id, true);
+  logger.info(
+    `✅ Model #${row.id} enabled — newly scored jobs get the "preference" factor; it stays enabled until another model is enabled`,
+  );
+  logger.info(
+    "Run `bun run rescore` to apply it to jobs already in the database",
+  );
+} else {
+  const id = getEnabledPreferenceModelId();
+  if (id === null) {
+    logger.info("Preference scoring is already off");
+  } else {
+    setPreferenceModelEnabled(id, false);
+    logger.info(`Model #${id} disabled — preference scoring is off`);
+  }
+}
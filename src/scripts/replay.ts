@@ -1,10 +1,16 @@
 import { logger } from "../logger";
 import { initializeDatabase } from "../db";
 import { loadConfig } from "../config";
-import { getRawJobsForReplay, insertCanonicalJob } from "../db/operations";
+import {
+  getRawJobsForReplay,
+  insertCanonicalJob,
+  insertJobSkills,
+  insertJobLocations,
+} from "../db/operations";
 import type { RawJob } from "../types";
 import { normalizeJob } from "../normalizer";
 import { checkDuplicate } from "../dedup";
+import { resolveCompanyId } from "../companies";
 import { scoreJob } from "../scoring";
 
 // Parse CLI args
@@ -55,6 +61,7 @@ for (const row of rawRows) {
       continue;
     }
 
+    canonical.companyId = resolveCompanyId(canonical.company, config);
     const dedup = checkDuplicate(canonical);
     if (dedup.isDuplicate && !dedup.isPotentialDuplicate) {
       duplicates++;
@@ -66,9 +73,15 @@ for (const row of rawRows) {
     canonical.scoreFreshness = score.freshness;
     canonical.scoreLocation = score.location;
     canonical.scoreMode = score.mode;
+    canonical.scoreSalary = score.salary;
+    canonical.scoreSeniority = score.seniority;
+    canonical.scoreWorkAuthorization = score.workAuthorization;
+    canonical.scoreBreakdown = score.breakdown;
     canonical.scoreBand = score.band;
 
-    insertCanonicalJob(canonical, row.id);
+    const canonicalId = insertCanonicalJob(canonical, row.id);
+    insertJobSkills(canonicalId, canonical.skills);
+    insertJobLocations(canonicalId, canonical.locations);
     inserted++;
   } catch (error) {
     failed++;
@@ -0,0 +1,29 @@
+/**
+ * Recompute scores and bands for active jobs.
+ *   bun run rescore            save the new scores
+ *   bun run rescore --dry-run  only list jobs whose band would change
+ */
+
+import { logger } from "../logger";
+import { initializeDatabase } from "../db";
+import { loadConfig } from "../config";
+import { rescoreActiveJobs } from "../scoring/rescore";
+
+const dryRun = process.argv.includes("--dry-run");
+
+initializeDatabase();
+const config = loadConfig();
+
+const result = rescoreActiveJobs(config, { dryRun });
+
+for (const change of result.bandChanges) {
+  const from = config.scoring.bands[change.oldBand];
+  const to = config.scoring.bands[change.newBand];
+  logger.info(
+    `  #${change.id} ${from?.emoji ?? ""} ${change.oldScore} → ${to?.emoji ?? ""} ${change.newScore}  ${change.title} @ ${change.company}`,
+  );
+}
+
+if (dryRun && (result.updated > 0 || result.rejected > 0)) {
+  logger.info("Dry run — run `bun run rescore` to save these scores");
+}
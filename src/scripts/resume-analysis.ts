@@ -1,14 +1,17 @@
 import { logger } from "../logger";
 import { initializeDatabase } from "../db";
-import { loadConfig } from "../config";
+import { loadConfig, type AppConfig } from "../config";
 import {
   getJobsNeedingAnalysis,
   getJobsNeedingAlerts,
   getRawJobContent,
+  getScoreBreakdown,
   insertFitAnalysis,
+  updateBlendedScore,
 } from "../db/operations";
 import { analyzeFit, getModalKeyCount, initKeyPool } from "../ai";
 import { sendJobAlert, initAlerts } from "../alerts";
+import { blendFitScore } from "../scoring";
 import type { CanonicalJob, WorkMode, ScoreBandKey, TitleBucket } from "../types";
 
 const args = process.argv.slice(2);
@@ -69,14 +72,22 @@ function buildCanonicalJob(job: {
     url: job.url,
     city: job.city,
     province: null,
-    country: "Canada",
+    country: null,
+    companyId: null,
     locationRaw: "",
     locationTier: null,
+    locations: [],
+    remoteRegion: null,
+    distanceKm: null,
     workMode: job.work_mode as WorkMode,
     score: job.score,
     scoreFreshness: 0,
     scoreLocation: 0,
     scoreMode: 0,
+    scoreSalary: 0,
+    scoreSeniority: 0,
+    scoreWorkAuthorization: 0,
+    scoreBreakdown: [],
     scoreBand: job.score_band as ScoreBandKey,
     postedAt: job.posted_at,
     postedAtConfidence: "low",
@@ -85,13 +96,42 @@ function buildCanonicalJob(job: {
     isReposted: false,
     originalPostDate: null,
     titleBucket: job.title_bucket as TitleBucket,
+    titleRule: null,
     status: "active",
     isBackfill: false,
     urlHash: "",
     contentFingerprint: "",
+    salaryMin: null,
+    salaryMax: null,
+    salaryCurrency: null,
+    salaryPeriod: null,
+    seniority: null,
+    experienceYears: null,
+    languageRequirement: "none",
+    workAuthorization: "unknown",
+    skills: [],
   };
 }
 
+// Same blend as runPipeline, starting from the stored pre-AI score
+function applyFitBlend(
+  job: { id: number; score: number; score_band: string; score_pre_ai: number },
+  fitScore: number,
+  config: AppConfig,
+): { score: number; band: string } {
+  const blended = blendFitScore(
+    { total: job.score_pre_ai, breakdown: getScoreBreakdown(job.id) },
+    fitScore,
+    config,
+  );
+  if (!blended) {
+    return { score: job.score, band: job.score_band };
+  }
+
+  updateBlendedScore(job.id, blended.total, blended.band, blended.breakdown);
+  return { score: blended.total, band: blended.band };
+}
+
 async function main() {
   logger.info("═══════════════════════════════════════════════════");
   logger.info("  Resume Analysis — Recover Interrupted Pipeline");
@@ -139,6 +179,7 @@ async function main() {
 
           if (fitAnalysis) {
             insertFitAnalysis(job.id, fitAnalysis);
+            applyFitBlend(job, fitAnalysis.fitScore, config);
           }
 
           return { job, fitAnalysis };
@@ -162,6 +203,7 @@ async function main() {
       for (const job of jobsNeedingAlerts) {
         const rawContent = getRawJobContent(job.id);
         let fitAnalysis = null;
+        let final = { score: job.score, band: job.score_band };
 
         if (rawContent) {
           const canonicalJob = buildCanonicalJob({
@@ -183,27 +225,32 @@ async function main() {
 
           if (fitAnalysis) {
             insertFitAnalysis(job.id, fitAnalysis);
+            final = applyFitBlend(job, fitAnalysis.fitScore, config);
           }
         }
 
-        await sendJobAlert(
+        const sent = await sendJobAlert(
           {
             id: job.id,
             title: job.title,
             company: job.company,
             city: job.city ?? null,
             workMode: job.work_mode as WorkMode,
-            score: job.score,
-            scoreBand: job.score_band,
+            score: final.score,
+            scoreBand: final.band,
             url: job.url,
             source: job.source,
             postedAt: job.posted_at ?? null,
             firstSeenAt: job.first_seen_at,
+            languageRequirement: job.language_requirement,
+            distanceKm: job.distance_km,
           },
           fitAnalysis,
         );
 
-        totalAlerts++;
+        if (sent) {
+          totalAlerts++;
+        }
       }
 
       logger.info(`Alerts complete: ${totalAlerts}/${jobsNeedingAlerts.length} alerts sent`);
@@ -34,7 +34,7 @@ try {
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
         url: fullUrl,
-        allowed_updates: ["callback_query"],
+        allowed_updates: ["callback_query", "message"],
       }),
     },
   );
@@ -6,6 +6,7 @@
 import { logger } from "../logger";
 import { db, getDatabaseStats } from "../db";
 import { getConfig } from "../config";
+import { getCircuitBreakers } from "../db/operations";
 
 const config = getConfig();
 
@@ -60,9 +61,23 @@ logger.info(`\n⚙️  Environment: ${config.env.nodeEnv}`);
 logger.info(`🧪 Dry run: ${config.env.dryRun}`);
 logger.info(`🔑 SerpApi keys: ${config.env.serpApiKeys.length}`);
 logger.info(
-  `🏢 Seed companies: ${config.companies.greenhouse.length + config.companies.lever.length + config.companies.ashby.length + config.companies.workable.length + config.companies.smartrecruiters.length + config.companies.bamboohr.length + config.companies.workday.length + config.companies.icims.length}`,
+  `🏢 Seed companies: ${config.companies.greenhouse.length + config.companies.lever.length + config.companies.ashby.length + config.companies.workable.length + config.companies.smartrecruiters.length + config.companies.bamboohr.length + config.companies.workday.length + config.companies.icims.length + (config.companies.recruitee?.length ?? 0) + (config.companies.teamtailor?.length ?? 0) + (config.companies.personio?.length ?? 0) + (config.companies.taleo?.length ?? 0) + (config.companies.successfactors?.length ?? 0) + (config.companies.jsonld?.length ?? 0) + (config.companies.jobbank?.length ?? 0) + (config.companies.publicsector?.length ?? 0) + (config.companies.hackernews?.length ?? 0)}`,
 );
 
+const breakers = getCircuitBreakers().filter(
+  (breaker) => breaker.state !== "closed" || breaker.failure_count > 0,
+);
+if (breakers.length > 0) {
+  logger.info(`\n🔌 Circuit breakers:`);
+  for (const breaker of breakers) {
+    logger.info(
+      `   ${breaker.key}: ${breaker.state} (${breaker.failure_count} failures${breaker.opened_at ? `, opened ${breaker.opened_at}` : ""})${breaker.last_error ? ` — ${breaker.last_error}` : ""}`,
+    );
+  }
+} else {
+  logger.info(`\n🔌 Circuit breakers: all closed`);
+}
+
 const enabledSources = Object.entries(config.sources.sources)
   .filter(([, s]) => s.enabled)
   .map(([name]) => name);
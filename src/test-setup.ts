@@ -0,0 +1,3 @@
+// Preloaded by `bun test` (bunfig.toml) before any test file is imported:
+// tests get a throwaway in-memory database instead of data/jobsearch.db
+process.env.DATABASE_PATH = ":memory:";
@@ -6,12 +6,36 @@ export type ScoreBandKey = "topPriority" | "goodMatch" | "worthALook";
 
 export type TimestampConfidence = "high" | "medium" | "low";
 
+export type SalaryPeriod = "hour" | "day" | "week" | "month" | "year";
+
+export type LanguageRequirement =
+  | "none"
+  | "french_asset"
+  | "bilingual"
+  | "french";
+
+export type WorkAuthorization =
+  | "sponsorship_offered"
+  | "no_sponsorship"
+  | "clearance_required"
+  | "unknown";
+
+// "staff" covers staff and above (principal, distinguished, architect)
+export type SeniorityLevel =
+  | "intern"
+  | "junior"
+  | "intermediate"
+  | "senior"
+  | "staff"
+  | "manager";
+
 export type JobStatus =
   | "active"
   | "applied"
   | "dismissed"
   | "expired"
-  | "archived";
+  | "archived"
+  | "rejected";
 
 export interface RawJob {
   source: string;
@@ -24,25 +48,35 @@ export interface RawJob {
   originalTimezone: string | null;
   content: string; // Job description HTML/text for fingerprinting
   rawPayload: string; // Original JSON string from API
+  detailUrl?: string; // Description endpoint when it differs from url
+  workMode?: WorkMode; // Stated outright by the source; skips classifyMode
 }
 
 export interface CanonicalJob {
   title: string;
   company: string;
+  companyId: string | null; // Company registry id, set before dedup
   source: string;
   sourceJobId: string;
   url: string;
   city: string | null;
-  province: string | null;
-  country: string;
+  province: string | null; // Province/state code, e.g. "ON"
+  country: string | null; // ISO 3166-1 alpha-2, e.g. "CA"
   locationRaw: string;
-  locationTier: string | null;
+  locationTier: string | null; // Best tier across all locations
+  locations: JobLocation[];
+  remoteRegion: string | null; // remoteRegions key or country codes, e.g. "US"
+  distanceKm: number | null; // Nearest location to the scoring home point
   workMode: WorkMode;
   score: number;
   scoreFreshness: number;
   scoreLocation: number;
   scoreMode: number;
+  scoreSalary: number;
+  scoreSeniority: number;
+  scoreWorkAuthorization: number;
   scoreBand: ScoreBandKey;
+  scoreBreakdown: ScoreFactorResult[];
   postedAt: string | null;
   postedAtConfidence: TimestampConfidence;
   originalTimezone: string | null;
@@ -50,10 +84,20 @@ export interface CanonicalJob {
   isReposted: boolean;
   originalPostDate: string | null;
   titleBucket: TitleBucket;
+  titleRule: string | null; // e.g. "include:software engineer"
   status: JobStatus;
   isBackfill: boolean;
   urlHash: string;
   contentFingerprint: string;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  salaryCurrency: string | null; // ISO code; null when only "$" was given
+  salaryPeriod: SalaryPeriod | null;
+  seniority: SeniorityLevel | null;
+  experienceYears: number | null; // Highest "N+ years" minimum in the text
+  languageRequirement: LanguageRequirement;
+  workAuthorization: WorkAuthorization;
+  skills: JobSkill[];
   rawJobId?: number;
 }
 
@@ -65,6 +109,7 @@ export interface ConnectorResult {
   error?: string;
   responseTimeMs: number;
   rateLimited: boolean;
+  notModified?: boolean; // HTTP 304 — board unchanged since the last poll
 }
 
 export interface PipelineRunResult {
@@ -96,15 +141,58 @@ export interface ScoreResult {
   freshness: number;
   location: number;
   mode: number;
+  salary: number;
+  seniority: number;
+  workAuthorization: number;
   band: ScoreBandKey;
+  breakdown: ScoreFactorResult[];
+}
+
+// One scoring factor's contribution, stored as JSON on the job
+export interface ScoreFactorResult {
+  factor: string; // Registry name, e.g. "freshness"
+  points: number; // After the scoring.json weight
+  reason: string; // e.g. "posted ≤6h ago"
+}
+
+export interface JobSkill {
+  name: string; // Canonical name from config/skills.json
+  category: string;
+}
+
+export interface SalaryInfo {
+  min: number | null;
+  max: number | null;
+  currency: string | null;
+  period: SalaryPeriod;
+}
+
+export interface TitleClassification {
+  bucket: TitleBucket;
+  rule: string | null; // "<bucket>:<rule name or pattern>"; null if none matched
+}
+
+export interface JobLocation {
+  label: string; // One segment of locationRaw, e.g. "Vancouver, BC"
+  city: string | null;
+  province: string | null;
+  country: string | null;
+  tier: string | null;
+  points: number;
+  remoteRegion: string | null;
+  distanceKm: number | null; // From the scoring home point, via gazetteer.json
 }
 
 export interface LocationClassification {
   city: string | null;
   province: string | null;
+  country: string | null;
   tier: string | null;
   points: number;
+  remoteRegion: string | null; // The eligible one when a posting lists several
+  distanceKm: number | null;
   allLocations: string[];
+  locations: JobLocation[];
 }
 
 export type BotType = "job" | "log";